@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // A full message history import (1000 messages of up to 5000 characters) is well past the 1MB default
+      bodySizeLimit: '10mb',
+    },
+  },
 };
 
 export default nextConfig;
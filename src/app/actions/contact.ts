@@ -0,0 +1,92 @@
+/**
+ * File: src/app/actions/contact.ts
+ *
+ * Server actions for the contact form
+ * Plain <form action={...}> posts, so they work before (or without) JavaScript
+ */
+
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { contactInputFromFormData, isContactSubmission, validateContact } from '@/lib/contact';
+import type { ContactActionState, ContactSubmission } from '@/lib/contact';
+import { readHistoryFile } from '@/lib/contactHistory';
+import type { ImportedSubmission } from '@/lib/contactHistory';
+import { addSubmission, clearSubmissions, deleteSubmission, importSubmissions, restoreSubmissions } from '@/lib/contactStore';
+
+/** For useActionState: validate, store, and refresh the page's history */
+export async function submitContact(_previous: ContactActionState, formData: FormData): Promise<ContactActionState> {
+  const values = contactInputFromFormData(formData);
+  const validation = validateContact(values);
+  if (!validation.ok) {
+    return { status: 'error', fieldErrors: validation.fieldErrors, values };
+  }
+
+  try {
+    const submission = await addSubmission(validation.data);
+    revalidatePath('/');
+    return { status: 'success', submission };
+  } catch (error) {
+    console.error('Saving contact submission failed', error);
+    return { status: 'error', fieldErrors: {}, formError: 'Your message could not be saved - please try again', values };
+  }
+}
+
+// Server actions are public endpoints - the id is whatever the caller sent, NaN included
+export async function deleteContactSubmission(id: number): Promise<void> {
+  if (!Number.isSafeInteger(id)) return;
+  await deleteSubmission(id);
+  revalidatePath('/');
+}
+
+export async function clearContactSubmissions(): Promise<void> {
+  await clearSubmissions();
+  revalidatePath('/');
+}
+
+/**
+ * Undo for the deletes above - the browser sends back the messages it was showing
+ * Anything that doesn't look like a real submission is ignored
+ * @returns how many were put back
+ */
+export async function restoreContactSubmissions(items: unknown): Promise<number> {
+  if (!Array.isArray(items)) return 0;
+  const valid: ContactSubmission[] = items.filter(isContactSubmission).flatMap(item => {
+    const validation = validateContact(item);
+    const time = Date.parse(item.submittedAt);
+    return validation.ok && !Number.isNaN(time)
+      ? [{ id: item.id, ...validation.data, submittedAt: new Date(time).toISOString() }]
+      : [];
+  });
+  const restored = await restoreSubmissions(valid);
+  revalidatePath('/');
+  return restored;
+}
+
+export type ContactImportResult =
+  | { ok: true; added: number; duplicates: number; invalid: number }
+  | { ok: false; error: string };
+
+/**
+ * Import an exported history file (already parsed as JSON in the browser)
+ * Every entry is re-checked here - the file came from the user, so the client's word isn't enough
+ */
+export async function importContactHistory(data: unknown): Promise<ContactImportResult> {
+  const file = readHistoryFile(data);
+  if (!file) return { ok: false, error: 'Not a message history file' };
+
+  const valid: ImportedSubmission[] = [];
+  for (const entry of file.entries) {
+    const validation = validateContact(entry);
+    if (validation.ok) valid.push({ ...validation.data, submittedAt: entry.submittedAt });
+  }
+
+  try {
+    const { added, duplicates } = await importSubmissions(valid);
+    revalidatePath('/');
+    return { ok: true, added, duplicates, invalid: file.dropped + file.entries.length - valid.length };
+  } catch (error) {
+    console.error('Importing contact submissions failed', error);
+    return { ok: false, error: 'The messages could not be saved - please try again' };
+  }
+}
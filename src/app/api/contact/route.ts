@@ -0,0 +1,62 @@
+/**
+ * File: src/app/api/contact/route.ts
+ *
+ * GET  /api/contact - every stored submission, newest first
+ * POST /api/contact - store a submission sent as JSON or form data
+ *
+ * Same validation and store as the ContactForm server action, for clients
+ * that aren't this page (curl, other apps)
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { contactInputFromFormData, validateContact } from '@/lib/contact';
+import type { ContactSubmission, ContactValidationErrorBody } from '@/lib/contact';
+import { addSubmission, listSubmissions } from '@/lib/contactStore';
+import type { ApiErrorBody } from '@/lib/users';
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+export async function GET() {
+  try {
+    return NextResponse.json<ContactSubmission[]>(await listSubmissions(), { headers: NO_STORE });
+  } catch (error) {
+    console.error('Reading contact submissions failed', error);
+    const body: ApiErrorBody = { error: { status: 500, message: 'The submissions could not be read - please try again' } };
+    return NextResponse.json(body, { status: 500, headers: NO_STORE });
+  }
+}
+
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    const contentType = request.headers.get('content-type') ?? '';
+    payload = contentType.includes('application/json')
+      ? await request.json()
+      : contactInputFromFormData(await request.formData());
+  } catch {
+    const body: ApiErrorBody = { error: { status: 400, message: 'Body must be JSON or form data' } };
+    return NextResponse.json(body, { status: 400, headers: NO_STORE });
+  }
+
+  const validation = validateContact(payload);
+  if (!validation.ok) {
+    const body: ContactValidationErrorBody = {
+      error: { status: 400, message: 'Some fields are invalid' },
+      fieldErrors: validation.fieldErrors,
+    };
+    return NextResponse.json(body, { status: 400, headers: NO_STORE });
+  }
+
+  // Same as submitContact: a store failure gets logged and a JSON error, not Next's bare 500 page
+  let submission: ContactSubmission;
+  try {
+    submission = await addSubmission(validation.data);
+  } catch (error) {
+    console.error('Saving contact submission failed', error);
+    const body: ApiErrorBody = { error: { status: 500, message: 'The submission could not be saved - please try again' } };
+    return NextResponse.json(body, { status: 500, headers: NO_STORE });
+  }
+  revalidatePath('/');
+  return NextResponse.json<ContactSubmission>(submission, { status: 201, headers: NO_STORE });
+}
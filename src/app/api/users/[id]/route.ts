@@ -0,0 +1,71 @@
+/**
+ * File: src/app/api/users/[id]/route.ts
+ *
+ * GET /api/users/:id - serves users from the local fixture with injectable faults
+ *
+ * Query params (each falls back to an env var, then a default):
+ *   latency=ms        MOCK_API_LATENCY_MS     delay before answering (default 600)
+ *   fail=404|500|timeout  MOCK_API_FAIL       always fail this way
+ *   failRate=0..1     MOCK_API_FAILURE_RATE   chance of a random 500 (default 0)
+ */
+
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { findUser } from '@/lib/userStore';
+import type { ApiErrorBody, MockFailure, User } from '@/lib/users';
+
+const DEFAULT_LATENCY_MS = 600;
+const MAX_LATENCY_MS = 10_000;
+// Long enough for any client timeout to fire first
+const TIMEOUT_HANG_MS = 30_000;
+
+function numberParam(raw: string | null | undefined, fallback: number, min: number, max: number): number {
+  const value = raw == null || raw === '' ? NaN : Number(raw);
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+function isMockFailure(value: string | null | undefined): value is MockFailure {
+  return value === '404' || value === '500' || value === 'timeout';
+}
+
+// Resolves early if the client goes away, so abandoned requests don't pile up
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+function errorResponse(status: number, message: string) {
+  const body: ApiErrorBody = { error: { status, message } };
+  return NextResponse.json(body, { status, headers: { 'Cache-Control': 'no-store' } });
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const query = request.nextUrl.searchParams;
+
+  const latency = numberParam(query.get('latency') ?? process.env.MOCK_API_LATENCY_MS, DEFAULT_LATENCY_MS, 0, MAX_LATENCY_MS);
+  const failRate = numberParam(query.get('failRate') ?? process.env.MOCK_API_FAILURE_RATE, 0, 0, 1);
+  const failParam = query.get('fail') ?? process.env.MOCK_API_FAIL;
+  const fail = isMockFailure(failParam) ? failParam : null;
+
+  await sleep(fail === 'timeout' ? TIMEOUT_HANG_MS : latency, request.signal);
+  if (request.signal.aborted) {
+    return errorResponse(499, 'Client closed request');
+  }
+
+  if (fail === '500' || Math.random() < failRate) {
+    return errorResponse(500, 'Internal server error (injected)');
+  }
+
+  const user = fail === '404' ? null : findUser(id);
+  if (!user) {
+    return errorResponse(404, `User ${id} not found`);
+  }
+
+  return NextResponse.json<User>(user, { headers: { 'Cache-Control': 'no-store' } });
+}
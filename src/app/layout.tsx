@@ -1,7 +1,11 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { FeatureFlagProvider } from "../contexts/FeatureFlagContext";
 import { ThemeProvider } from "../contexts/ThemeContext";
+import { ToastProvider } from "../contexts/ToastContext";
+import { getThemeScript } from "../lib/theme";
+import { getThemeStylesheet } from "../lib/tokens";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -24,12 +28,22 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    // The theme script sets data-theme before hydration, so React would
+    // otherwise warn that <html> doesn't match the server markup
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <style dangerouslySetInnerHTML={{ __html: getThemeStylesheet() }} />
+        <script dangerouslySetInnerHTML={{ __html: getThemeScript() }} />
+      </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <ThemeProvider>
-          {children}
+          <FeatureFlagProvider>
+            <ToastProvider>
+              {children}
+            </ToastProvider>
+          </FeatureFlagProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -1,6 +1,12 @@
 import Dashboard from '@/components/Dashboard';
+import { listSubmissions } from '@/lib/contactStore';
+
+// Contact submissions live in a file that changes at runtime - never prerender
+export const dynamic = 'force-dynamic';
+
+export default async function Home() {
+  const contactSubmissions = await listSubmissions();
 
-export default function Home() {
   return (
     <div className="min-h-screen" style={{ background: 'var(--background)', color: 'var(--foreground)' }}>
       <header className="header">
@@ -15,7 +21,7 @@ export default function Home() {
       </header>
       
       <main>
-        <Dashboard />
+        <Dashboard contactSubmissions={contactSubmissions} />
       </main>
       
       <footer className="footer">
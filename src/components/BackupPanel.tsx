@@ -0,0 +1,348 @@
+/**
+ * File: src/components/BackupPanel.tsx
+ *
+ * Backup widget - every key the dashboard stores in this browser, exported to
+ * one JSON file or a share link, and restored with a preview of what changes
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState, useTransition } from 'react';
+import { UNDO_DURATION, useToast } from '../contexts/ToastContext';
+import {
+  applyBackup,
+  collectBackup,
+  decodeShareFragment,
+  diffBackup,
+  encodeShareFragment,
+  listEntries,
+  MAX_SHARE_LENGTH,
+  readBackupFile,
+  toBackupFile,
+} from '../lib/backup';
+import type { BackupChangeKind, BackupData, BackupFile, RestoreMode } from '../lib/backup';
+import { downloadJson } from '../lib/download';
+import { formatBytes } from '../lib/storage';
+import { tint, token } from '../lib/tokens';
+import type { TokenName } from '../lib/tokens';
+import Button from './Button';
+import ConfirmDialog from './ConfirmDialog';
+
+// An imported backup waiting for the user to look it over
+interface PendingRestore {
+  backup: BackupFile;
+  /** Entries readBackupFile had to leave out */
+  dropped: number;
+  source: 'file' | 'link';
+  /** What's stored right now - the preview diffs against this */
+  current: BackupData;
+}
+
+const RESTORE_MODES: Record<RestoreMode, { label: string; description: string }> = {
+  merge: { label: 'Merge', description: 'Keys in the backup overwrite the same keys here - everything else stays' },
+  replace: { label: 'Replace', description: 'Make this browser match the backup - keys it doesn’t have are removed' },
+};
+
+const CHANGE_STYLES: Record<BackupChangeKind, { label: string; color: TokenName }> = {
+  added: { label: 'New', color: 'success' },
+  changed: { label: 'Changed', color: 'warning' },
+  removed: { label: 'Removed', color: 'destructive' },
+  unchanged: { label: 'Same', color: 'mutedForeground' },
+  kept: { label: 'Kept', color: 'mutedForeground' },
+};
+
+function isRestoreMode(value: string): value is RestoreMode {
+  return Object.hasOwn(RESTORE_MODES, value);
+}
+
+// Drop #backup=... once it's been dealt with, so a reload doesn't offer it again
+function clearShareFragment() {
+  if (window.location.hash) {
+    history.replaceState(history.state, '', `${window.location.pathname}${window.location.search}`);
+  }
+}
+
+export default function BackupPanel() {
+  // null until the first read - storage only exists in the browser
+  const [stored, setStored] = useState<BackupData | null>(null);
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [confirmingReplace, setConfirmingReplace] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isWorking, startWork] = useTransition();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    const data = await collectBackup();
+    setStored(data);
+    return data;
+  }, []);
+
+  const preview = useCallback(async (data: unknown, source: PendingRestore['source']) => {
+    const result = readBackupFile(data);
+    if (!result) {
+      setImportError(`Not a dashboard backup${source === 'link' ? ' link' : ''} - or it was made by a newer version`);
+      return;
+    }
+    setImportError(null);
+    setMode('merge');
+    setPending({ ...result, source, current: await refresh() });
+  }, [refresh]);
+
+  // First read, and a backup arriving in the URL: /#backup=...
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      let shared: unknown;
+      try {
+        shared = await decodeShareFragment(window.location.hash);
+      } catch (error) {
+        console.error('Error reading share link:', error);
+        if (!cancelled) setImportError('That share link is damaged - ask for a new one');
+      }
+      if (cancelled) return;
+      if (shared !== undefined) await preview(shared, 'link');
+      else await refresh();
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [refresh, preview]);
+
+  const entries = useMemo(() => (stored ? listEntries(stored) : []), [stored]);
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  const changes = useMemo(
+    () => (pending ? diffBackup(pending.current, pending.backup.data, mode) : []),
+    [pending, mode]
+  );
+  const counts = changes.reduce<Partial<Record<BackupChangeKind, number>>>(
+    (totals, change) => ({ ...totals, [change.kind]: (totals[change.kind] ?? 0) + 1 }),
+    {}
+  );
+
+  const handleExport = () => {
+    startWork(async () => {
+      const data = await refresh();
+      downloadJson(`dashboard-backup-${new Date().toISOString().slice(0, 10)}.json`, toBackupFile(data));
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // let the same file be picked again
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setImportError('Could not read that file as JSON');
+      return;
+    }
+    startWork(() => preview(data, 'file'));
+  };
+
+  const handleShare = () => {
+    startWork(async () => {
+      const fragment = await encodeShareFragment(toBackupFile(await refresh()));
+      if (fragment.length > MAX_SHARE_LENGTH) {
+        toast({ message: 'Too much data for a link - export a backup file instead', variant: 'error' });
+        return;
+      }
+      const url = `${window.location.origin}${window.location.pathname}#${fragment}`;
+      try {
+        await navigator.clipboard.writeText(url);
+        toast({ message: 'Share link copied - open it on the other machine', variant: 'success' });
+      } catch {
+        toast({ message: 'Could not copy the link - clipboard access was blocked', variant: 'error' });
+      }
+    });
+  };
+
+  const cancelRestore = () => {
+    setPending(null);
+    clearShareFragment();
+  };
+
+  const restore = () => {
+    if (!pending) return;
+    setConfirmingReplace(false);
+    startWork(async () => {
+      let previous: BackupData;
+      try {
+        previous = await applyBackup(pending.backup.data, mode);
+      } catch (error) {
+        console.error('Error restoring backup:', error);
+        toast({ message: 'Restore failed - storage may be full', variant: 'error' });
+        return;
+      }
+      setPending(null);
+      clearShareFragment();
+      await refresh();
+      // Undo puts back exactly what was stored before
+      toast({
+        message: `Backup restored (${RESTORE_MODES[mode].label.toLowerCase()})`,
+        variant: 'success',
+        action: {
+          label: 'Undo',
+          onClick: () => startWork(async () => {
+            try {
+              await applyBackup(previous, 'replace');
+            } catch (error) {
+              console.error('Error undoing restore:', error);
+              toast({ message: 'Undo failed - storage may be full', variant: 'error' });
+            }
+            await refresh();
+          }),
+        },
+        duration: UNDO_DURATION,
+      });
+    });
+  };
+
+  const visibleChanges = changes.filter(change => change.kind !== 'unchanged');
+
+  return (
+    <div className="widget">
+      <h3>
+        <span className="widget-icon">💾</span>
+        Backup &amp; Restore
+        <span className="pattern-badge">Storage Adapters</span>
+      </h3>
+
+      <p className="text-sm mb-4" style={{ color: 'var(--muted-foreground)' }}>
+        Everything this dashboard keeps in your browser - notes, todos, theme, flags and more.
+        Move it to another machine as a file, or as a link for small setups.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={entries.length === 0 || isWorking} leadingIcon="⬇️">
+          Export backup
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isWorking} leadingIcon="⬆️">
+          Import backup
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+        <Button variant="outline" size="sm" onClick={handleShare} disabled={entries.length === 0 || isWorking} leadingIcon="🔗">
+          Copy share link
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => startWork(async () => {
+          await refresh();
+        })} disabled={isWorking} leadingIcon="🔄">
+          Refresh
+        </Button>
+      </div>
+
+      {importError && <div className="error mb-4" role="alert">⚠️ {importError}</div>}
+
+      {pending && (
+        <section className="p-3 rounded mb-4" style={{ border: `1px solid ${tint('primary', 40)}` }} aria-label="Restore preview">
+          <h4 className="font-bold mb-1">
+            Restore from {pending.source === 'link' ? 'a share link' : 'a backup file'}
+          </h4>
+          <p className="text-xs mb-3" style={{ color: 'var(--muted-foreground)' }}>
+            {pending.backup.exportedAt && `Made ${new Date(pending.backup.exportedAt).toLocaleString()}. `}
+            {pending.dropped > 0 && `${pending.dropped} unreadable entr${pending.dropped === 1 ? 'y was' : 'ies were'} skipped. `}
+            Nothing changes until you press Restore.
+          </p>
+
+          <div className="flex flex-col gap-1 mb-3" role="radiogroup" aria-label="Restore mode">
+            {(Object.keys(RESTORE_MODES) as RestoreMode[]).map(name => (
+              <label key={name} className="flex items-start gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  value={name}
+                  checked={mode === name}
+                  onChange={e => isRestoreMode(e.target.value) && setMode(e.target.value)}
+                />
+                <span>
+                  <strong>{RESTORE_MODES[name].label}</strong> - {RESTORE_MODES[name].description}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs mb-2" role="status">
+            {(Object.keys(CHANGE_STYLES) as BackupChangeKind[])
+              .filter(kind => counts[kind])
+              .map(kind => `${counts[kind]} ${CHANGE_STYLES[kind].label.toLowerCase()}`)
+              .join(' · ') || 'The backup is empty'}
+          </p>
+
+          {visibleChanges.length > 0 && (
+            <ul className="text-xs max-h-48 overflow-y-auto mb-3">
+              {visibleChanges.map(change => (
+                <li key={`${change.area}:${change.key}`} className="flex items-center gap-2 py-1">
+                  <span
+                    className="px-2 rounded-full"
+                    style={{ background: tint(CHANGE_STYLES[change.kind].color, 15), color: token(CHANGE_STYLES[change.kind].color) }}
+                  >
+                    {CHANGE_STYLES[change.kind].label}
+                  </span>
+                  <code className="flex-1 truncate">{change.key}</code>
+                  <span style={{ color: 'var(--muted-foreground)' }}>{change.area}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" size="sm" onClick={cancelRestore} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              variant={mode === 'replace' && counts.removed ? 'destructive' : 'primary'}
+              // Replacing can delete keys - ask first
+              onClick={() => (mode === 'replace' && counts.removed ? setConfirmingReplace(true) : restore())}
+              disabled={visibleChanges.every(change => change.kind === 'kept')}
+              loading={isWorking}
+            >
+              Restore
+            </Button>
+          </div>
+        </section>
+      )}
+
+      <ConfirmDialog
+        open={confirmingReplace}
+        title="Replace this browser's data?"
+        description={`${counts.removed ?? 0} stored key${counts.removed === 1 ? '' : 's'} not in the backup will be removed. You can undo this for a few seconds afterwards.`}
+        confirmLabel="Replace"
+        destructive
+        onConfirm={restore}
+        onCancel={() => setConfirmingReplace(false)}
+      />
+
+      <h4 className="text-sm font-bold mb-2">
+        Stored keys {stored && `(${entries.length}, ${formatBytes(totalBytes)})`}
+      </h4>
+      {stored === null ? (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>Reading storage...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>Nothing stored yet - use the widgets above first</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr style={{ color: 'var(--muted-foreground)' }}>
+              <th className="text-left font-medium">Key</th>
+              <th className="text-left font-medium">Where</th>
+              <th className="text-right font-medium">Size</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={`${entry.area}:${entry.key}`}>
+                <td><code>{entry.key}</code></td>
+                <td>{entry.area}</td>
+                <td className="text-right">{formatBytes(entry.bytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * File: src/components/Button.tsx
+ *
+ * Button - one component for every button and button-styled link
+ * Variants and sizes map onto the .btn-* classes in globals.css
+ */
+
+import React, { cloneElement, forwardRef, isValidElement } from 'react';
+
+export type ButtonVariant = 'primary' | 'secondary' | 'destructive' | 'ghost' | 'outline' | 'link';
+export type ButtonSize = 'sm' | 'md' | 'lg' | 'icon';
+
+export const buttonVariants: ButtonVariant[] = ['primary', 'secondary', 'destructive', 'ghost', 'outline', 'link'];
+export const buttonSizes: ButtonSize[] = ['sm', 'md', 'lg', 'icon'];
+
+interface ButtonOwnProps {
+  variant?: ButtonVariant;
+  size?: ButtonSize;
+  /** Show a spinner, mark the button aria-busy and ignore clicks */
+  loading?: boolean;
+  /** Icon before the label (replaced by the spinner while loading) */
+  leadingIcon?: React.ReactNode;
+  /** Icon after the label */
+  trailingIcon?: React.ReactNode;
+  /** Style the only child (e.g. a Next.js <Link>) instead of rendering a <button> */
+  asChild?: boolean;
+  children?: React.ReactNode;
+}
+
+// 🐍 Python: Like a tagged union - `as` decides which HTML attributes are allowed
+type NativeButtonProps = ButtonOwnProps & { as?: 'button' } & Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, keyof ButtonOwnProps>;
+type AnchorButtonProps = ButtonOwnProps & { as: 'a'; disabled?: boolean } & Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, keyof ButtonOwnProps>;
+
+export type ButtonProps = NativeButtonProps | AnchorButtonProps;
+
+// Props every rendered element gets, whatever its tag
+interface SharedProps {
+  className: string;
+  'aria-busy'?: boolean;
+  'aria-disabled'?: boolean;
+}
+
+const Button = forwardRef<HTMLButtonElement | HTMLAnchorElement, ButtonProps>(function Button(props, ref) {
+  const {
+    variant = 'primary',
+    size = 'md',
+    loading = false,
+    leadingIcon,
+    trailingIcon,
+    asChild = false,
+    as = 'button',
+    disabled = false,
+    className,
+    children,
+    ...rest
+  } = props;
+
+  const inactive = loading || disabled;
+  const shared: SharedProps = {
+    className: ['btn', `btn-${variant}`, `btn-${size}`, className].filter(Boolean).join(' '),
+    'aria-busy': loading || undefined,
+  };
+
+  const content = (label: React.ReactNode) => (
+    <>
+      {loading ? <span className="btn-spinner" aria-hidden="true" /> : leadingIcon}
+      {label}
+      {trailingIcon}
+    </>
+  );
+
+  // Links can't be disabled natively - block clicks and tell assistive tech instead
+  const blockClick = (e: React.MouseEvent) => {
+    if (inactive) e.preventDefault();
+  };
+
+  if (asChild && isValidElement<{ className?: string; children?: React.ReactNode }>(children)) {
+    const slotProps: React.HTMLAttributes<HTMLElement> & { ref: typeof ref } = {
+      ...(rest as React.HTMLAttributes<HTMLElement>),
+      ...shared,
+      ref,
+      className: [shared.className, children.props.className].filter(Boolean).join(' '),
+      'aria-disabled': inactive || undefined,
+      onClickCapture: blockClick,
+    };
+    return cloneElement(children, slotProps, content(children.props.children));
+  }
+
+  if (as === 'a') {
+    const anchorProps = rest as React.AnchorHTMLAttributes<HTMLAnchorElement>;
+    return (
+      <a
+        {...anchorProps}
+        {...shared}
+        ref={ref as React.Ref<HTMLAnchorElement>}
+        aria-disabled={inactive || undefined}
+        tabIndex={inactive ? -1 : anchorProps.tabIndex}
+        onClick={(e) => {
+          blockClick(e);
+          if (!inactive) anchorProps.onClick?.(e);
+        }}
+      >
+        {content(children)}
+      </a>
+    );
+  }
+
+  const buttonProps = rest as React.ButtonHTMLAttributes<HTMLButtonElement>;
+  return (
+    <button
+      {...buttonProps}
+      {...shared}
+      ref={ref as React.Ref<HTMLButtonElement>}
+      type={buttonProps.type ?? 'button'}
+      disabled={inactive}
+    >
+      {content(children)}
+    </button>
+  );
+});
+
+export default Button;
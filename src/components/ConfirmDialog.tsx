@@ -0,0 +1,83 @@
+/**
+ * File: src/components/ConfirmDialog.tsx
+ *
+ * "Are you sure?" dialog for bulk destructive actions
+ * Built on the native <dialog>: showModal() traps focus, makes the page inert
+ * and closes on Escape, with no focus-trap code of our own
+ */
+
+'use client';
+
+import React, { useEffect, useId, useRef } from 'react';
+import Button from './Button';
+
+interface ConfirmDialogProps {
+  open: boolean;
+  title: string;
+  description?: React.ReactNode;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  /** Red confirm button, and focus starts on Cancel so Enter can't destroy anything by accident */
+  destructive?: boolean;
+  onConfirm: () => void;
+  /** Cancel button, Escape or a click on the backdrop */
+  onCancel: () => void;
+}
+
+export default function ConfirmDialog({
+  open,
+  title,
+  description,
+  confirmLabel = 'Confirm',
+  cancelLabel = 'Cancel',
+  destructive = false,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const titleId = useId();
+  const descriptionId = useId();
+
+  // The DOM owns modal state, so mirror the prop into it
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) dialog.showModal();
+    else if (!open && dialog.open) dialog.close();
+  }, [open]);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="dialog"
+      aria-labelledby={titleId}
+      aria-describedby={description ? descriptionId : undefined}
+      // Escape fires "cancel" - let the parent decide, so `open` stays the single source of truth
+      onCancel={e => {
+        e.preventDefault();
+        onCancel();
+      }}
+      // Content sits in the padded inner box, so a click on the dialog element itself is a backdrop click
+      onClick={e => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div className="p-6">
+        <h2 id={titleId} className="text-lg font-bold mb-2">{title}</h2>
+        {description && (
+          <div id={descriptionId} className="text-sm mb-6" style={{ color: 'var(--muted-foreground)' }}>
+            {description}
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onCancel} autoFocus={destructive}>
+            {cancelLabel}
+          </Button>
+          <Button variant={destructive ? 'destructive' : 'primary'} onClick={onConfirm} autoFocus={!destructive}>
+            {confirmLabel}
+          </Button>
+        </div>
+      </div>
+    </dialog>
+  );
+}
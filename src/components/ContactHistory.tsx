@@ -0,0 +1,549 @@
+/**
+ * File: src/components/ContactHistory.tsx
+ *
+ * Message History panel for the ContactForm
+ * Search, sort and filter by sender, paged so thousands of messages stay fast,
+ * plus CSV/JSON export and JSON import. Deletes can be undone from a toast
+ */
+
+'use client';
+
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState, useTransition } from 'react';
+import {
+  clearContactSubmissions,
+  deleteContactSubmission,
+  importContactHistory,
+  restoreContactSubmissions,
+} from '../app/actions/contact';
+import type { ContactImportResult } from '../app/actions/contact';
+import type { ContactSubmission } from '../lib/contact';
+import {
+  CONTACT_SORTS,
+  isContactSort,
+  LEGACY_HISTORY_KEY,
+  listSenders,
+  queryHistory,
+  readLegacyHistory,
+  toCsv,
+  toHistoryFile,
+} from '../lib/contactHistory';
+import type { ContactSort } from '../lib/contactHistory';
+import { downloadFile, downloadJson } from '../lib/download';
+import { indexedDBStorage } from '../lib/storage';
+import { UNDO_DURATION, useToast } from '../contexts/ToastContext';
+import { tint, token } from '../lib/tokens';
+import Button from './Button';
+import ConfirmDialog from './ConfirmDialog';
+
+// Only one page of messages is ever in the DOM, however long the history gets
+const PAGE_SIZE = 10;
+
+const pluralMessages = (count: number) => `${count} message${count === 1 ? '' : 's'}`;
+
+function describeImport(result: ContactImportResult): string {
+  if (!result.ok) return result.error;
+  const parts = [`Imported ${result.added} message${result.added === 1 ? '' : 's'}`];
+  if (result.duplicates > 0) parts.push(`${result.duplicates} already here`);
+  if (result.invalid > 0) parts.push(`${result.invalid} invalid skipped`);
+  return parts.join(' · ');
+}
+
+// The history used to live in this browser's IndexedDB. Move it to the server once, then drop the
+// old copy - one shared promise, so Strict Mode's double effect can't import it twice
+let legacyMigration: Promise<ContactImportResult | null> | null = null;
+
+function migrateLegacyHistory(): Promise<ContactImportResult | null> {
+  legacyMigration ??= (async () => {
+    if (typeof indexedDB === 'undefined') return null;
+    const item = await indexedDBStorage.getItem(LEGACY_HISTORY_KEY);
+    if (item === null) return null;
+    const entries = readLegacyHistory(item);
+    const result = entries && entries.length > 0 ? await importContactHistory(entries) : null;
+    // The action reports store failures instead of throwing - keep the old copy until it saved them
+    if (result !== null && !result.ok) throw new Error(result.error);
+    await indexedDBStorage.removeItem(LEGACY_HISTORY_KEY);
+    return result;
+  })().catch(error => {
+    legacyMigration = null; // keep the old copy and try again next time
+    throw error;
+  });
+  return legacyMigration;
+}
+
+interface ContactHistoryProps {
+  /** Newest first, straight from the server */
+  submissions: ContactSubmission[];
+}
+
+export default function ContactHistory({ submissions }: ContactHistoryProps) {
+  const [search, setSearch] = useState('');
+  const [sender, setSender] = useState('');
+  const [sort, setSort] = useState<ContactSort>('newest');
+  const [page, setPage] = useState(1);
+  const [importResult, setImportResult] = useState<ContactImportResult | null>(null);
+  const [isImporting, startImport] = useTransition();
+  const [, startDelete] = useTransition();
+  const [confirmingClear, setConfirmingClear] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    migrateLegacyHistory().then(
+      result => {
+        if (cancelled || !result?.ok || result.added === 0) return;
+        toast({ message: `Moved ${pluralMessages(result.added)} saved in this browser into the history`, variant: 'success' });
+      },
+      error => console.error('Moving the old message history failed', error)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  // Typing stays responsive - re-filtering a long history waits until React has a spare moment
+  // 🐍 Python: a bit like debouncing, but React decides when instead of a fixed timer
+  const deferredSearch = useDeferredValue(search);
+  const results = useMemo(
+    () => queryHistory(submissions, { search: deferredSearch, sender, sort }),
+    [submissions, deferredSearch, sender, sort]
+  );
+  const senders = useMemo(() => listSenders(submissions), [submissions]);
+  const latestId = useMemo(() => [...submissions].sort(CONTACT_SORTS.newest.compare)[0]?.id, [submissions]);
+
+  // Calculate submission statistics using useMemo for performance
+  const submissionStats = useMemo(() => {
+    return {
+      total: submissions.length,
+      uniqueEmails: senders.length,
+      avgMessageLength: submissions.length > 0 
+        ? Math.round(submissions.reduce((sum, s) => sum + s.message.length, 0) / submissions.length)
+        : 0
+    };
+  }, [submissions, senders]);
+
+  const pageCount = Math.max(1, Math.ceil(results.length / PAGE_SIZE));
+  // Deleting the last message on the last page shouldn't leave you staring at an empty page
+  const currentPage = Math.min(page, pageCount);
+  const pageItems = results.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+  const isFiltered = deferredSearch.trim() !== '' || sender !== '';
+
+  const clearFilters = () => {
+    setSearch('');
+    setSender('');
+    setPage(1);
+  };
+
+  // Undo sends back what was on screen - the server re-checks every message before storing it
+  const undoDelete = (items: ContactSubmission[]) => {
+    startDelete(async () => {
+      try {
+        const restored = await restoreContactSubmissions(items);
+        toast({ message: `Restored ${pluralMessages(restored)}`, variant: 'success' });
+      } catch {
+        toast({ message: 'The messages could not be restored', variant: 'error' });
+      }
+    });
+  };
+
+  // The delete happens right away; the toast just offers a way back
+  const deleteWithUndo = (items: ContactSubmission[], remove: () => Promise<void>, message: string) => {
+    startDelete(async () => {
+      try {
+        await remove();
+      } catch {
+        toast({ message: 'Delete failed - please try again', variant: 'error' });
+        return;
+      }
+      toast({ message, action: { label: 'Undo', onClick: () => undoDelete(items) }, duration: UNDO_DURATION });
+    });
+  };
+
+  const confirmClearAll = () => {
+    setConfirmingClear(false);
+    deleteWithUndo(submissions, clearContactSubmissions, `Deleted ${pluralMessages(submissions.length)}`);
+  };
+
+  // Exports follow what's on screen: the current search, sender and sort
+  const exportName = `messages-${new Date().toISOString().slice(0, 10)}`;
+  const handleExportJson = () => downloadJson(`${exportName}.json`, toHistoryFile(results));
+  const handleExportCsv = () => downloadFile(`${exportName}.csv`, toCsv(results), 'text/csv;charset=utf-8');
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // let the same file be picked again
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setImportResult({ ok: false, error: 'Could not read that file as JSON' });
+      return;
+    }
+    // The server re-validates every message - see importContactHistory
+    startImport(async () => {
+      setImportResult(await importContactHistory(data));
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="text-lg font-bold" style={{ color: 'var(--foreground)' }}>
+          📋 Message History
+        </h4>
+        {submissions.length > 0 && (
+          // Deletes are server actions too - plain forms, so they still work without JS.
+          // With JS we step in first to ask for confirmation
+          <form
+            action={clearContactSubmissions}
+            onSubmit={e => {
+              e.preventDefault();
+              setConfirmingClear(true);
+            }}
+          >
+            <Button type="submit" variant="destructive" size="sm" leadingIcon="🗑️">
+              Clear All
+            </Button>
+          </form>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={confirmingClear}
+        title="Delete all messages?"
+        description={`All ${pluralMessages(submissions.length)} will be deleted. You can undo this for a few seconds afterwards.`}
+        confirmLabel="Delete all"
+        destructive
+        onConfirm={confirmClearAll}
+        onCancel={() => setConfirmingClear(false)}
+      />
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Button variant="outline" size="sm" onClick={handleExportJson} disabled={results.length === 0} leadingIcon="⬇️">
+          JSON
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={results.length === 0} leadingIcon="⬇️">
+          CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} loading={isImporting} leadingIcon="⬆️">
+          Import JSON
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+      </div>
+
+      {importResult && (
+        <div
+          className={importResult.ok ? 'text-xs mb-4' : 'error mb-4'}
+          style={importResult.ok ? { color: token('success') } : undefined}
+          role="status"
+        >
+          {importResult.ok ? '✅ ' : '⚠️ '}{describeImport(importResult)}
+        </div>
+      )}
+      
+      {/* Modern Statistics Cards */}
+      {submissions.length > 0 && (
+        <div className="grid grid-cols-3 gap-3 mb-6">
+          <div className="text-center p-3 rounded-xl" style={{ 
+            background: `linear-gradient(135deg, ${tint('info', 10)} 0%, ${tint('info', 5)} 100%)`,
+            border: `1px solid ${tint('info', 20)}`
+          }}>
+            <div className="text-2xl font-bold" style={{ color: 'var(--primary)' }}>
+              {submissionStats.total}
+            </div>
+            <div className="text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>
+              Total Messages
+            </div>
+          </div>
+          <div className="text-center p-3 rounded-xl" style={{ 
+            background: `linear-gradient(135deg, ${tint('success', 10)} 0%, ${tint('success', 5)} 100%)`,
+            border: `1px solid ${tint('success', 20)}`
+          }}>
+            <div className="text-2xl font-bold" style={{ color: token('success') }}>
+              {submissionStats.uniqueEmails}
+            </div>
+            <div className="text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>
+              Unique Senders
+            </div>
+          </div>
+          <div className="text-center p-3 rounded-xl" style={{ 
+            background: `linear-gradient(135deg, ${tint('warning', 10)} 0%, ${tint('warning', 5)} 100%)`,
+            border: `1px solid ${tint('warning', 20)}`
+          }}>
+            <div className="text-2xl font-bold" style={{ color: token('warning') }}>
+              {submissionStats.avgMessageLength}
+            </div>
+            <div className="text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>
+              Avg Length
+            </div>
+          </div>
+        </div>
+      )}
+
+      {submissions.length > 0 && (
+        <div className="mb-4">
+          <input
+            type="search"
+            value={search}
+            onChange={e => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search name, email or message..."
+            aria-label="Search messages"
+            className="input mb-2"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={sender}
+              onChange={e => {
+                setSender(e.target.value);
+                setPage(1);
+              }}
+              aria-label="Filter by sender"
+              className="input"
+            >
+              <option value="">All senders ({senders.length})</option>
+              {senders.map(item => (
+                <option key={item.email} value={item.email}>
+                  {item.name} &lt;{item.email}&gt; ({item.count})
+                </option>
+              ))}
+            </select>
+            <select
+              value={sort}
+              onChange={e => {
+                if (isContactSort(e.target.value)) setSort(e.target.value);
+              }}
+              aria-label="Sort messages"
+              className="input"
+            >
+              {(Object.keys(CONTACT_SORTS) as ContactSort[]).map(name => (
+                <option key={name} value={name}>{CONTACT_SORTS[name].label}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs mt-2" style={{ color: 'var(--muted-foreground)' }} aria-live="polite">
+            {isFiltered ? `${results.length} of ${submissions.length} messages match` : `${submissions.length} messages`}
+          </p>
+        </div>
+      )}
+      
+      {submissions.length === 0 ? (
+        <div className="text-center p-12 rounded-2xl" style={{ 
+          background: `linear-gradient(135deg, ${token('muted')} 0%, ${tint('background', 10)} 100%)`,
+          border: '2px dashed var(--border)'
+        }}>
+          {/* Modern empty state */}
+          <div className="mb-4">
+            <div 
+              className="inline-flex items-center justify-center w-16 h-16 rounded-full mb-4"
+              style={{ 
+                background: `linear-gradient(135deg, ${tint('primary', 10)} 0%, ${tint('info', 10)} 100%)`,
+                border: `2px solid ${tint('primary', 20)}`
+              }}
+            >
+              <span className="text-2xl">📭</span>
+            </div>
+          </div>
+          <h3 className="text-lg font-bold mb-2" style={{ color: 'var(--foreground)' }}>
+            No Messages Yet
+          </h3>
+          <p className="text-sm leading-relaxed" style={{ color: 'var(--muted-foreground)' }}>
+            Submit your first message using the form<br />
+            to see it beautifully displayed here!
+          </p>
+          <div 
+            className="inline-block mt-4 px-4 py-2 rounded-full text-xs font-medium"
+            style={{ 
+              background: tint('primary', 10),
+              color: token('primary'),
+              border: `1px solid ${tint('primary', 20)}`
+            }}
+          >
+            ✨ Ready for your first message
+          </div>
+        </div>
+      ) : results.length === 0 ? (
+        <div className="text-center p-8 rounded-2xl" style={{ border: '2px dashed var(--border)' }}>
+          <p className="text-sm mb-3" style={{ color: 'var(--muted-foreground)' }}>
+            🔍 No messages match these filters
+          </p>
+          <Button variant="secondary" size="sm" onClick={clearFilters}>
+            Clear filters
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-4 pr-2">
+            {pageItems.map(submission => {
+              const isLatest = submission.id === latestId;
+              return (
+                <div 
+                  key={submission.id} 
+                  className="group relative p-4 rounded-2xl transition-all duration-300 hover:scale-[1.02]" 
+                  style={{ 
+                    background: 'var(--card)',
+                    border: '1px solid var(--border)',
+                    boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+                  }}
+                >
+                  {/* Modern message header with gradient badge */}
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex items-center gap-2">
+                      <div 
+                        className="px-3 py-1 rounded-full text-xs font-bold"
+                        style={{ 
+                          background: isLatest 
+                            ? `linear-gradient(135deg, ${token('primary')} 0%, ${token('info')} 100%)` 
+                            : `linear-gradient(135deg, ${token('warning')} 0%, ${token('destructive')} 100%)`,
+                          color: isLatest ? token('primaryForeground') : token('destructiveForeground'),
+                          boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+                        }}
+                      >
+                        #{submission.id}
+                      </div>
+                      {isLatest && (
+                        <div 
+                          className="px-2 py-1 rounded-full text-xs font-medium"
+                          style={{ 
+                            background: tint('success', 10),
+                            color: token('success'),
+                            border: `1px solid ${tint('success', 20)}`
+                          }}
+                        >
+                          ✨ Latest
+                        </div>
+                      )}
+                    </div>
+                    <form
+                      action={deleteContactSubmission.bind(null, submission.id)}
+                      onSubmit={e => {
+                        e.preventDefault();
+                        deleteWithUndo(
+                          [submission],
+                          () => deleteContactSubmission(submission.id),
+                          `Deleted message from ${submission.name}`
+                        );
+                      }}
+                    >
+                      <Button 
+                        type="submit"
+                        variant="ghost" 
+                        size="icon"
+                        className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity duration-200"
+                        aria-label={`Delete message from ${submission.name}`}
+                      >
+                        ✕
+                      </Button>
+                    </form>
+                  </div>
+              
+                  {/* Enhanced submission data with better typography */}
+                  <div className="space-y-3">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-xs font-bold" style={{ color: 'var(--primary)' }}>
+                          👤 SENDER
+                        </span>
+                      </div>
+                      <div 
+                        className="text-sm font-medium px-3 py-2 rounded-lg"
+                        style={{ 
+                          background: 'var(--muted)',
+                          color: 'var(--foreground)'
+                        }}
+                      >
+                        {submission.name}
+                      </div>
+                    </div>
+                
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-xs font-bold" style={{ color: 'var(--primary)' }}>
+                          📧 EMAIL
+                        </span>
+                      </div>
+                      <div 
+                        className="text-sm font-mono px-3 py-2 rounded-lg"
+                        style={{ 
+                          background: 'var(--muted)',
+                          color: 'var(--foreground)',
+                          fontSize: '12px'
+                        }}
+                      >
+                        {submission.email}
+                      </div>
+                    </div>
+                
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-xs font-bold" style={{ color: 'var(--primary)' }}>
+                          💬 MESSAGE
+                        </span>
+                        <span 
+                          className="text-xs px-2 py-1 rounded-full"
+                          style={{ 
+                            background: tint('primary', 10),
+                            color: token('primary')
+                          }}
+                        >
+                          {submission.message.length} chars
+                        </span>
+                      </div>
+                      <div 
+                        className="text-sm leading-relaxed px-3 py-2 rounded-lg"
+                        style={{ 
+                          background: 'var(--muted)',
+                          color: 'var(--foreground)',
+                          lineHeight: '1.5'
+                        }}
+                      >
+                        {submission.message}
+                      </div>
+                    </div>
+                
+                    {/* Modern timestamp with icon */}
+                    <div 
+                      className="flex items-center gap-2 pt-3 mt-3"
+                      style={{ 
+                        borderTop: '1px solid var(--border)'
+                      }}
+                    >
+                      <span className="text-xs">🕒</span>
+                      {/* Server and browser may format in different time zones - the browser's wins */}
+                      <time
+                        dateTime={submission.submittedAt}
+                        className="text-xs font-medium"
+                        style={{ color: 'var(--muted-foreground)' }}
+                        suppressHydrationWarning
+                      >
+                        {new Date(submission.submittedAt).toLocaleString()}
+                      </time>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {pageCount > 1 && (
+            <nav className="flex items-center justify-between mt-4" aria-label="Message history pages">
+              <Button variant="outline" size="sm" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 1}>
+                ← Previous
+              </Button>
+              <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+                Page {currentPage} of {pageCount}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setPage(currentPage + 1)} disabled={currentPage === pageCount}>
+                Next →
+              </Button>
+            </nav>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
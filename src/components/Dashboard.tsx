@@ -7,9 +7,57 @@
 
 'use client';
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useActionState, startTransition } from 'react';
+import Link from 'next/link';
+import { submitContact } from '../app/actions/contact';
+import { Feature, useFlag } from '../contexts/FeatureFlagContext';
 import { useTheme } from '../contexts/ThemeContext';
+import { UNDO_DURATION, useToast } from '../contexts/ToastContext';
 import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { useAsync } from '../hooks/useAsync';
+import { useForm } from '../hooks/useForm';
+import { useHistoryState } from '../hooks/useHistoryState';
+import { useTicker } from '../hooks/useTicker';
+import { useTimerLeakTracker } from '../hooks/useTimerLeakTracker';
+import { localDate } from '../lib/dates';
+import { createId } from '../lib/id';
+import { CONTACT_LIMITS, contactSchema } from '../lib/contact';
+import type { ContactActionState, ContactSubmission } from '../lib/contact';
+import { markdownToText } from '../lib/markdown';
+import {
+  activityByDay,
+  countTags,
+  createNote,
+  isNoteList,
+  matchesNote,
+  NOTES_STORAGE_KEY,
+  NOTES_VERSION,
+  notesMigrations,
+  parseTags,
+  pinnedFirst,
+  trimOldestNotes,
+} from '../lib/notes';
+import type { Note } from '../lib/notes';
+import { applyOrder } from '../lib/reorder';
+import { searchWords, splitMatches } from '../lib/search';
+import { formatBytes } from '../lib/storage';
+import { CLOCK_TAB_STORAGE_KEY, COUNTER_STORAGE_KEY, TODOS_STORAGE_KEY } from '../lib/storageKeys';
+import { tint, token } from '../lib/tokens';
+import { fetchUser, UserRequestError } from '../lib/users';
+import type { MockApiOptions, User } from '../lib/users';
+import BackupPanel from './BackupPanel';
+import Button, { buttonSizes, buttonVariants } from './Button';
+import ConfirmDialog from './ConfirmDialog';
+import ContactHistory from './ContactHistory';
+import FeatureFlagsPanel from './FeatureFlagsPanel';
+import FieldFeedback from './FieldFeedback';
+import KeysDemo from './KeysDemo';
+import Markdown from './Markdown';
+import SortableList from './SortableList';
+import TeamSignupForm from './TeamSignupForm';
+import ThemeEditor from './ThemeEditor';
+import { Countdown, Stopwatch, WorldClock } from './TimeTools';
 
 // =====================================
 // PATTERN 1: useState - State Management
@@ -21,9 +69,28 @@ import { useLocalStorage } from '../hooks/useLocalStorage';
 • Regular variables change internally but don't update the UI
 • useState is React's way of connecting data to the visual interface
 • Always use setState functions, never mutate state directly
+• Keeping past/present/future values in state makes undo/redo almost free
 */
 
-function Counter() {
+interface CounterProps {
+  step?: number;
+  min?: number;
+  max?: number;
+  /** Remember the count (and its undo history) across reloads */
+  persist?: boolean;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Shortcuts shouldn't hijack undo inside text fields
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+function Counter({ step = 1, min = -Infinity, max = Infinity, persist = false }: CounterProps) {
   // 🐍 Python equivalent: self.count = 0 in __init__
   // But Python needs manual UI updates, React auto-updates!
   
@@ -43,10 +110,30 @@ function Counter() {
   // };
 
   // ✅ GOOD: useState triggers automatic re-renders
-  const [count, setCount] = useState(0);
-  const increment = () => setCount(count + 1);
-  const decrement = () => setCount(count - 1);
-  const reset = () => setCount(0);
+  // (useHistoryState is useState plus undo/redo stacks - see src/hooks/useHistoryState.ts)
+  const [count, setCount, { undo, redo, canUndo, canRedo }] = useHistoryState(0, {
+    capacity: 100,
+    storageKey: persist ? COUNTER_STORAGE_KEY : undefined,
+    validate: isFiniteNumber,
+  });
+  const increment = () => setCount(prev => Math.min(prev + step, max));
+  const decrement = () => setCount(prev => Math.max(prev - step, min));
+  const reset = () => setCount(Math.min(Math.max(0, min), max));
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) anywhere on the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isEditableTarget(e.target)) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   return (
     <div className="widget">
@@ -62,11 +149,24 @@ function Counter() {
         <p className="text-sm mb-0" style={{ color: 'var(--muted-foreground)' }}>
           Click buttons to see automatic re-renders
         </p>
+        {(Number.isFinite(min) || Number.isFinite(max)) && (
+          <p className="text-xs mb-0" style={{ color: 'var(--muted-foreground)' }}>
+            Step {step} · Range {Number.isFinite(min) ? min : '-∞'} to {Number.isFinite(max) ? max : '∞'}
+          </p>
+        )}
       </div>
       <div className="flex gap-2 justify-center">
-        <button onClick={decrement} className="btn btn-secondary">-</button>
+        <button onClick={decrement} className="btn btn-secondary" disabled={count <= min}>-{step}</button>
         <button onClick={reset} className="btn btn-secondary">Reset</button>
-        <button onClick={increment} className="btn btn-primary">+</button>
+        <button onClick={increment} className="btn btn-primary" disabled={count >= max}>+{step}</button>
+      </div>
+      <div className="flex gap-2 justify-center mt-3">
+        <button onClick={undo} className="btn btn-secondary" disabled={!canUndo} title="Undo (Ctrl+Z)">
+          ↩️ Undo
+        </button>
+        <button onClick={redo} className="btn btn-secondary" disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          ↪️ Redo
+        </button>
       </div>
     </div>
   );
@@ -85,39 +185,39 @@ function Counter() {
 • useEffect cleanup function runs when component unmounts
 */
 
+const CLOCK_TABS = [
+  { id: 'world', label: '🌍 World' },
+  { id: 'stopwatch', label: '⏱️ Stopwatch' },
+  { id: 'countdown', label: '⏳ Countdown' },
+] as const;
+
+type ClockTab = typeof CLOCK_TABS[number]['id'];
+
+function isClockTab(value: unknown): value is ClockTab {
+  return CLOCK_TABS.some(tab => tab.id === value);
+}
+
 function Clock() {
   const [time, setTime] = useState<Date | null>(null);
   const [showBadExample, setShowBadExample] = useState(false);
-  const [renderCount, setRenderCount] = useState(0);
-
-  // // // Track renders for demonstration
-  // useEffect(() => {
-  //   setRenderCount(prev => prev + 1);
-  // });
-
-  // // ❌ BAD: Side effect in render function (when demo is active)
-  // if (showBadExample) {
-  //   console.log(`🔥 RENDER #${renderCount}: Creating new timer...`);
-  //   setTimeout(() => {
-  //     setTime(new Date()); // This will trigger another render!
-  //   }, 1000);
-  // }
+  const [tab, setTab] = useLocalStorage<ClockTab>(CLOCK_TAB_STORAGE_KEY, 'world', { validate: isClockTab });
+  // Counts renders and live timers, caps them, and clears them all when the demo stops
+  const leak = useTimerLeakTracker({ enabled: showBadExample, maxTimers: 25, maxRenders: 1000 });
+
+  // ❌ BAD: Side effect in render function (when demo is active)
+  // Every render starts another interval, every interval triggers more renders,
+  // so the count snowballs until the tracker's caps stop it
+  if (showBadExample) {
+    leak.leakInterval(() => {
+      setTime(new Date()); // This will trigger another render!
+    }, 1000);
+  }
 
   // ✅ GOOD: useEffect handles side effects properly
-  useEffect(() => {
-    if (!showBadExample) {
-      // Fix hydration mismatch by only setting time after client mount
-      setTime(new Date());
-      
-      // 🐍 Python: Like __enter__ in context manager
-      const timer = setInterval(() => {
-        setTime(new Date());
-      }, 1000);
-      
-      // 🐍 Python: Like __exit__ in context manager
-      return () => clearInterval(timer); // Cleanup prevents memory leaks
-    }
-  }, [showBadExample]); // Re-run when demo mode changes
+  // useTicker wraps the same useEffect + cleanup pair (see src/hooks/useTicker.ts),
+  // and also corrects drift and pauses while the tab is hidden.
+  // Setting the time only after mount avoids a hydration mismatch
+  useTicker(() => setTime(new Date()), { enabled: !showBadExample, alignToClock: true });
 
   return (
     <div className="widget">
@@ -140,13 +240,17 @@ function Clock() {
       {/* Visual Feedback */}
       {showBadExample && (
         <div className="rounded mb-4 text-center p-2" style={{ 
-          background: 'rgba(255, 68, 68, 0.1)'
+          background: tint('destructive', 10)
         }}>
-          <div className="text-sm font-bold" style={{ color: '#ff4444' }}>
-            ⚠️ Renders: {renderCount} | Check console!
+          <div className="text-sm font-bold" style={{ color: token('destructive') }}>
+            ⚠️ Renders: {leak.renders} | Live intervals: {leak.liveTimers}
           </div>
           <div className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
-            New timer created every render
+            {leak.tripped
+              ? `🧯 Safety cap hit after ${leak.renders} renders - all ${leak.createdTimers} timers cleared`
+              : leak.capped
+                ? `New timer created every render - capped at ${leak.liveTimers}, each still re-rendering every second`
+                : 'New timer created every render'}
           </div>
         </div>
       )}
@@ -155,13 +259,35 @@ function Clock() {
         <div className="text-2xl font-bold my-4">
           {time ? time.toLocaleTimeString() : '--:--:-- --'}
         </div>
-        <p className="text-sm mb-0" style={{ color: 'var(--muted-foreground)' }}>
+        <p className="text-sm mb-4" style={{ color: 'var(--muted-foreground)' }}>
           {showBadExample 
-            ? '🚨 Using setTimeout in render (creating memory leaks!)' 
+            ? '🚨 Using setInterval in render (creating memory leaks!)' 
             : 'Updates every second with automatic cleanup'
           }
         </p>
       </div>
+
+      {/* Tools - each tab mounts its own ticker and cleans it up when you switch away */}
+      <div className="flex gap-2 justify-center mb-4" role="tablist" aria-label="Clock tools">
+        {CLOCK_TABS.map(({ id, label }) => (
+          <button
+            key={id}
+            id={`clock-tab-${id}`}
+            role="tab"
+            aria-selected={tab === id}
+            aria-controls="clock-tab-panel"
+            onClick={() => setTab(id)}
+            className={`btn ${tab === id ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div id="clock-tab-panel" role="tabpanel" aria-labelledby={`clock-tab-${tab}`}>
+        {tab === 'world' && <WorldClock />}
+        {tab === 'stopwatch' && <Stopwatch />}
+        {tab === 'countdown' && <Countdown />}
+      </div>
     </div>
   );
 }
@@ -188,34 +314,18 @@ function Clock() {
 // }
 
 // ✅ GOOD: Reusable component with props
-interface ButtonProps {
-  variant?: 'primary' | 'secondary' | 'destructive' | 'Sean';
-  children: React.ReactNode;
-  onClick?: () => void;
-  disabled?: boolean;
-  type?: 'button' | 'submit' | 'reset';
-  style?: React.CSSProperties;
-  className?: string;
-}
-
-function Button({ variant = 'primary', children, onClick, disabled = false, type = 'button', style, className }: ButtonProps) {
-  // 🐍 Python: Like function parameters with defaults
-  // def button(variant='primary', children=None, on_click=None, disabled=False):
-  
-  return (
-    <button 
-      className={`btn btn-${variant} ${className || ''}`}
-      onClick={onClick}
-      disabled={disabled}
-      type={type}
-      style={style}
-    >
-      {children}
-    </button>
-  );
-}
+// Note: The actual implementation is now in src/components/Button.tsx - variants,
+// sizes, loading state, icon slots and link rendering are all just props
 
 function ButtonShowcase() {
+  const [saving, setSaving] = useState(false);
+
+  // Fake a slow save so the loading state is visible
+  const save = () => {
+    setSaving(true);
+    setTimeout(() => setSaving(false), 1500);
+  };
+
   return (
     <div className="widget">
       <h3>
@@ -226,21 +336,62 @@ function ButtonShowcase() {
       <p className="text-sm mb-4" style={{ color: 'var(--muted-foreground)' }}>
         One component, multiple styles via props
       </p>
-      <div className="flex flex-row gap-3 justify-center">
-        <Button variant="primary" onClick={() => alert('Primary!')}>
-          Primary Button
-        </Button>
-        <Button variant="secondary" onClick={() => alert('Secondary!')}>
-          Secondary Button
-        </Button>
-        <Button variant="destructive" onClick={() => alert('Danger!')}>
-          Destructive Button
+
+      {/* Every variant × size combination */}
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left p-2" style={{ color: 'var(--muted-foreground)' }}>variant</th>
+              {buttonSizes.map(size => (
+                <th key={size} className="p-2" style={{ color: 'var(--muted-foreground)' }}>{size}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {buttonVariants.map(variant => (
+              <tr key={variant}>
+                <td className="p-2 font-mono">{variant}</td>
+                {buttonSizes.map(size => (
+                  <td key={size} className="p-2 text-center">
+                    <Button
+                      variant={variant}
+                      size={size}
+                      onClick={() => alert(`${variant} / ${size}`)}
+                      aria-label={size === 'icon' ? `${variant} icon button` : undefined}
+                    >
+                      {size === 'icon' ? '★' : 'Button'}
+                    </Button>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* States, icons and polymorphic rendering */}
+      <div className="flex flex-wrap gap-3 justify-center">
+        <Button loading={saving} onClick={save}>
+          {saving ? 'Saving...' : 'Save (loading)'}
         </Button>
         <Button disabled onClick={() => alert('Never fires')}>
           Disabled Button
         </Button>
-        <Button variant='primary' onClick={() => alert('Sean is on fire!')}>
-          Sean Button
+        <Button variant="secondary" leadingIcon="📥">
+          Leading icon
+        </Button>
+        <Button variant="outline" trailingIcon="→">
+          Trailing icon
+        </Button>
+        <Button as="a" variant="link" href="https://react.dev" target="_blank" rel="noreferrer" trailingIcon="↗">
+          as=&quot;a&quot; link
+        </Button>
+        <Button asChild variant="ghost" leadingIcon="🔗">
+          <Link href="/">asChild Next.js Link</Link>
+        </Button>
+        <Button as="a" variant="secondary" href="https://react.dev" disabled>
+          Disabled link
         </Button>
       </div>
     </div>
@@ -260,42 +411,62 @@ function ButtonShowcase() {
 • Loading states improve user experience during async operations
 */
 
-interface User {
-  name: string;
-  email: string;
+// Each scenario is just query params for the mock backend in src/app/api/users/[id]/route.ts
+const USER_SCENARIOS: Record<string, { label: string; options: MockApiOptions }> = {
+  flaky: { label: '🎲 Flaky (30% fail)', options: { failRate: 0.3 } },
+  ok: { label: '✅ Always works', options: {} },
+  slow: { label: '🐢 Slow (3s)', options: { latency: 3000 } },
+  notFound: { label: '🔍 404 Not found', options: { fail: '404' } },
+  serverError: { label: '💥 500 Server error', options: { fail: '500' } },
+  timeout: { label: '⌛ Timeout', options: { fail: 'timeout' } },
+};
+
+const USER_IDS = ['1', '2', '3', '4', '99'];
+const USER_TIMEOUT_MS = 5000;
+const USER_RETRIES = 3;
+
+function describeUserError(error: UserRequestError): string {
+  switch (error.kind) {
+    case 'not-found':
+      return `🔍 User not found (HTTP ${error.status})`;
+    case 'server':
+      return `💥 Server error (HTTP ${error.status}): ${error.message}`;
+    case 'timeout':
+      return `⌛ ${error.message} - request cancelled`;
+    case 'invalid-response':
+      return `🧩 ${error.message}`;
+    case 'network':
+      return `📡 ${error.message}`;
+  }
 }
 
-function UserProfile() {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [randomNumber, setRandomNumber] = useState<number | null>(null);
-
-  const fetchUser = () => {
-    setLoading(true);
-    setError(null);
-    setUser(null);
-    setRandomNumber(null);
-    
-    // Simulate API call
-    setTimeout(() => {
-      const random = Math.random();
-      // Store the random number in state to display in UI
-      setRandomNumber(random);
-      console.log('Random number: ', random);
-      
-      if (random > 0.7) {
-        setError('Failed to load user data');
-      } else {
-        setUser({ name: 'John Doe', email: 'john@example.com' });
-      }
-      setLoading(false);
-    }, 2000);
-  };
+// Ticks down to the next automatic retry
+function RetryCountdown({ at }: { at: number }) {
+  const [now, setNow] = useState(() => performance.now());
+  useTicker(setNow, { interval: 250 });
+  return <>{Math.max(0, Math.ceil((at - now) / 1000))}s</>;
+}
 
-  useEffect(() => {
-    fetchUser();
-  }, []);
+function UserProfile() {
+  const [userId, setUserId] = useState('1');
+  const [scenario, setScenario] = useState('flaky');
+
+  // ❌ BAD: setTimeout/fetch with no cleanup - a slow old response can
+  // overwrite a newer one, or set state after unmount
+  // ✅ GOOD: useAsync aborts the previous request whenever loadUser changes
+  const loadUser = useCallback(
+    (signal: AbortSignal) => fetchUser(userId, { ...USER_SCENARIOS[scenario].options, signal, timeoutMs: USER_TIMEOUT_MS }),
+    [userId, scenario]
+  );
+  const request = useAsync<User, UserRequestError>(loadUser, {
+    enabled: userId !== '',
+    retries: USER_RETRIES,
+    // A missing user won't appear by asking again
+    shouldRetry: error => !(error instanceof UserRequestError && error.kind === 'not-found'),
+  });
+  const showDetails = useFlag('profileDetails');
+  const showCountdown = useFlag('retryCountdown');
+  const compact = useFlag('compactProfile');
 
   // ❌ BAD: Shows everything at once - confusing to users!
   // return (
@@ -309,7 +480,7 @@ function UserProfile() {
   // );
 
   // ✅ GOOD: Show appropriate state
-  // 🐍 Python: Like if/elif/else statements
+  // 🐍 Python: Like if/elif/else statements - one status, exactly one branch
   return (
     <div className="widget">
       <h3>
@@ -317,48 +488,80 @@ function UserProfile() {
         User Profile
         <span className="pattern-badge">Conditional</span>
       </h3>
+
+      <div className="flex gap-2 mb-4">
+        <select value={userId} onChange={(e) => setUserId(e.target.value)} className="input" aria-label="User">
+          <option value="">Signed out</option>
+          {USER_IDS.map(id => <option key={id} value={id}>User #{id}</option>)}
+        </select>
+        <select value={scenario} onChange={(e) => setScenario(e.target.value)} className="input" aria-label="Server behaviour">
+          {Object.entries(USER_SCENARIOS).map(([name, { label }]) => (
+            <option key={name} value={name}>{label}</option>
+          ))}
+        </select>
+      </div>
       
-      {loading && (
+      {request.status === 'loading' && (
         <div className="text-center p-8">
-          <div className="status-loading">Loading user data...</div>
+          <div className="status-loading">
+            Loading user data...
+            {request.attempt > 1 && ` (attempt ${request.attempt} of ${USER_RETRIES + 1})`}
+          </div>
         </div>
       )}
       
-      {error && (
+      {request.status === 'error' && (
         <div className="text-center p-8">
-          <div className="status-error">❌ {error}</div>
-          {randomNumber !== null && (
-            <div className="mt-2 text-sm" style={{ color: 'var(--muted-foreground)' }}>
-              Random number: <strong>{randomNumber.toFixed(3)}</strong> 
-              <span style={{ color: '#ff4444' }}> (&gt; 0.7 = Error)</span>
-            </div>
-          )}
-          <Button onClick={fetchUser} variant="secondary" className="mt-4">
-            Try Again
+          <div className="status-error">❌ {describeUserError(request.error)}</div>
+          <div className="mt-2 text-sm" style={{ color: 'var(--muted-foreground)' }} aria-live="polite">
+            {request.nextRetryAt !== null
+              ? <>Attempt {request.attempt} failed - retrying{showCountdown && <> in <strong><RetryCountdown at={request.nextRetryAt} /></strong></>}</>
+              : `Gave up after ${request.attempt} attempt${request.attempt === 1 ? '' : 's'}`}
+          </div>
+          <Button onClick={request.reload} variant="secondary" className="mt-4">
+            {request.nextRetryAt !== null ? 'Retry Now' : 'Try Again'}
           </Button>
         </div>
       )}
       
-      {!loading && !error && !user && (
+      {request.status === 'idle' && (
         <div className="text-center p-8">
           <div className="status-loading">Please log in</div>
         </div>
       )}
 
-      {user && (
+      {request.status === 'success' && (
         <div>
           <div className="status-success">✅ User loaded successfully!</div>
-          {randomNumber !== null && (
-            <div className="text-center mt-2 text-sm" style={{ color: 'var(--muted-foreground)' }}>
-              Random number: <strong>{randomNumber.toFixed(3)}</strong> 
-              <span style={{ color: '#22c55e' }}> (≤ 0.7 = Success)</span>
+          <div className="text-center mt-2 text-sm" style={{ color: 'var(--muted-foreground)' }}>
+            <span style={{ color: token('success') }}>HTTP 200</span> in <strong>{request.elapsedMs} ms</strong>
+            {request.attempt > 1 && ` after ${request.attempt - 1} retr${request.attempt === 2 ? 'y' : 'ies'}`}
+          </div>
+          <div className={`mt-4 flex gap-4 ${compact ? 'items-center text-sm' : 'items-start'}`}>
+            {/* Gate with a component... */}
+            <Feature name="profileAvatar">
+              <div
+                className="rounded-full flex items-center justify-center font-bold shrink-0"
+                style={{ width: '3rem', height: '3rem', background: token('primary'), color: token('primaryForeground') }}
+                aria-hidden="true"
+              >
+                {request.data.name.split(' ').map(part => part[0]).join('').slice(0, 2)}
+              </div>
+            </Feature>
+            <div>
+              <p><strong>Name:</strong> {request.data.name}</p>
+              <p><strong>Email:</strong> {request.data.email}</p>
+              {/* ...or with a hook */}
+              {showDetails && !compact && (
+                <>
+                  <p><strong>Role:</strong> {request.data.role}</p>
+                  <p><strong>Location:</strong> {request.data.location}</p>
+                  <p><strong>Joined:</strong> {new Date(request.data.joinedAt).toLocaleDateString()}</p>
+                </>
+              )}
             </div>
-          )}
-          <div className="mt-4">
-            <p><strong>Name:</strong> {user.name}</p>
-            <p><strong>Email:</strong> {user.email}</p>
           </div>
-          <Button onClick={fetchUser} variant="secondary" className="mt-4">
+          <Button onClick={request.reload} variant="secondary" className="mt-4">
             Reload User
           </Button>
         </div>
@@ -381,27 +584,168 @@ function UserProfile() {
 */
 
 interface Todo {
-  id: number;
+  id: string;
   text: string;
   completed: boolean;
+  /** Local calendar date, YYYY-MM-DD */
+  dueDate: string | null;
+}
+
+type TodoFilter = 'all' | 'active' | 'completed';
+
+const TODO_FILTERS: Record<TodoFilter, { label: string; matches: (todo: Todo) => boolean }> = {
+  all: { label: 'All', matches: () => true },
+  active: { label: 'Active', matches: todo => !todo.completed },
+  completed: { label: 'Completed', matches: todo => todo.completed },
+};
+
+// Fixed ids so the starter list renders the same on server and client
+const STARTER_TODOS: Todo[] = [
+  { id: 'starter-usestate', text: 'Learn React useState', completed: true, dueDate: null },
+  { id: 'starter-useeffect', text: 'Master useEffect', completed: true, dueDate: null },
+  { id: 'starter-props', text: 'Understand props', completed: false, dueDate: null },
+  { id: 'starter-conditional', text: 'Practice conditional rendering', completed: false, dueDate: null },
+  { id: 'starter-build', text: 'Build awesome apps', completed: false, dueDate: null },
+];
+
+function isTodoFilter(value: string): value is TodoFilter {
+  return Object.hasOwn(TODO_FILTERS, value);
+}
+
+function isTodoList(value: unknown): value is Todo[] {
+  return Array.isArray(value) && value.every(item =>
+    typeof item === 'object' && item !== null
+    && typeof item.id === 'string'
+    && typeof item.text === 'string'
+    && typeof item.completed === 'boolean'
+    && (item.dueDate === null || (typeof item.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item.dueDate)))
+  );
+}
+
+interface TodoItemProps {
+  todo: Todo;
+  /** Drag handle from SortableList */
+  handle: React.ReactNode;
+  /** Today's date, or null before mount (nothing is overdue yet) */
+  today: string | null;
+  onToggle: (id: string) => void;
+  onRename: (id: string, text: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function TodoItem({ todo, handle, today, onToggle, onRename, onDelete }: TodoItemProps) {
+  // Draft text while editing; null when not editing
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const save = () => {
+    if (draft === null) return;
+    if (draft.trim()) onRename(todo.id, draft.trim());
+    setDraft(null);
+  };
+
+  // Plain YYYY-MM-DD strings compare correctly as text
+  const overdue = !todo.completed && todo.dueDate !== null && today !== null && todo.dueDate < today;
+
+  return (
+    <div
+      className={`todo-item flex items-center gap-2 ${todo.completed ? 'todo-completed' : ''}`}
+      style={overdue ? { borderColor: token('destructive'), background: tint('destructive', 5) } : undefined}
+    >
+      {handle}
+      <button
+        onClick={() => onToggle(todo.id)}
+        role="checkbox"
+        aria-checked={todo.completed}
+        aria-label={`Mark "${todo.text}" ${todo.completed ? 'not done' : 'done'}`}
+      >
+        {todo.completed ? '✅' : '⬜'}
+      </button>
+
+      {draft !== null ? (
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save();
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          className="input flex-1"
+          aria-label="Edit todo"
+          autoFocus
+        />
+      ) : (
+        <span className="flex-1" onDoubleClick={() => setDraft(todo.text)}>{todo.text}</span>
+      )}
+
+      {todo.dueDate && (
+        <span
+          className="text-xs px-2 py-1 rounded-full"
+          style={{
+            background: overdue ? tint('destructive', 15) : token('muted'),
+            color: overdue ? token('destructive') : token('mutedForeground'),
+          }}
+        >
+          {overdue ? '⚠️ ' : '📅 '}
+          {new Date(`${todo.dueDate}T00:00`).toLocaleDateString()}
+        </span>
+      )}
+
+      {draft === null && (
+        <Button variant="ghost" size="icon" onClick={() => setDraft(todo.text)} aria-label={`Edit "${todo.text}"`}>
+          ✏️
+        </Button>
+      )}
+      <Button variant="ghost" size="icon" onClick={() => onDelete(todo.id)} aria-label={`Delete "${todo.text}"`}>
+        ✕
+      </Button>
+    </div>
+  );
 }
 
 function TodoList() {
-  const [todos, setTodos] = useState<Todo[]>([
-    { id: 1, text: 'Learn React useState', completed: true },
-    { id: 2, text: 'Master useEffect', completed: true },
-    { id: 3, text: 'Understand props', completed: false },
-    { id: 4, text: 'Practice conditional rendering', completed: false },
-    { id: 5, text: 'Build awesome apps', completed: false },
-  ]);
-
-  const toggleTodo = (id: number) => {
-    setTodos(todos.map(todo => 
+  const [todos, setTodos] = useLocalStorage<Todo[]>(TODOS_STORAGE_KEY, STARTER_TODOS, { validate: isTodoList });
+  const [filter, setFilter] = useQueryParam<TodoFilter>('todos', 'all', isTodoFilter);
+  const [newText, setNewText] = useState('');
+  const [newDueDate, setNewDueDate] = useState('');
+  // Client-only, and refreshed every minute so items turn overdue at midnight
+  const [today, setToday] = useState<string | null>(null);
+  useTicker(() => setToday(localDate()), { interval: 60_000 });
+
+  const addTodo = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = newText.trim();
+    if (!text) return;
+    setTodos(prev => [...prev, { id: createId(), text, completed: false, dueDate: newDueDate || null }]);
+    setNewText('');
+    setNewDueDate('');
+  };
+
+  const toggleTodo = useCallback((id: string) => {
+    setTodos(prev => prev.map(todo =>
       todo.id === id ? { ...todo, completed: !todo.completed } : todo
     ));
-  };
+  }, [setTodos]);
+
+  const renameTodo = useCallback((id: string, text: string) => {
+    setTodos(prev => prev.map(todo => (todo.id === id ? { ...todo, text } : todo)));
+  }, [setTodos]);
+
+  const deleteTodo = useCallback((id: string) => {
+    setTodos(prev => prev.filter(todo => todo.id !== id));
+  }, [setTodos]);
+
+  const clearCompleted = () => setTodos(prev => prev.filter(todo => !todo.completed));
+
+  // The list may be filtered - slot the reordered subset back around the hidden todos
+  const reorderTodos = useCallback((reordered: Todo[]) => {
+    setTodos(prev => applyOrder(prev, reordered, todo => todo.id));
+  }, [setTodos]);
 
   const completedCount = todos.filter(todo => todo.completed).length;
+  // An empty list is 0% done, not NaN%
+  const progress = todos.length === 0 ? 0 : (completedCount / todos.length) * 100;
+  const visibleTodos = todos.filter(TODO_FILTERS[filter].matches);
 
   return (
     <div className="widget">
@@ -415,17 +759,57 @@ function TodoList() {
         <p className="text-sm" style={{ color: 'var(--muted-foreground)' }}>
           Progress: {completedCount}/{todos.length} completed
         </p>
-        <div className="h-2 rounded overflow-hidden" style={{ 
-          background: 'var(--muted)'
-        }}>
+        <div
+          className="h-2 rounded overflow-hidden"
+          style={{ background: 'var(--muted)' }}
+          role="progressbar"
+          aria-label="Checklist progress"
+          aria-valuenow={Math.round(progress)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        >
           <div className="h-full transition-all duration-300 ease-out" style={{
             background: 'var(--primary)',
-            width: `${(completedCount / todos.length) * 100}%`
+            width: `${progress}%`
           }} />
         </div>
       </div>
+
+      <form onSubmit={addTodo} className="flex gap-2 mb-4">
+        <input
+          value={newText}
+          onChange={(e) => setNewText(e.target.value)}
+          placeholder="Add a todo..."
+          className="input flex-1"
+          aria-label="New todo"
+        />
+        <input
+          type="date"
+          value={newDueDate}
+          onChange={(e) => setNewDueDate(e.target.value)}
+          className="input"
+          style={{ width: 'auto' }}
+          aria-label="Due date"
+        />
+        <Button type="submit" disabled={!newText.trim()}>Add</Button>
+      </form>
+
+      <div className="flex gap-2 mb-4" role="radiogroup" aria-label="Show">
+        {(Object.keys(TODO_FILTERS) as TodoFilter[]).map(name => (
+          <Button
+            key={name}
+            size="sm"
+            variant={filter === name ? 'primary' : 'outline'}
+            role="radio"
+            aria-checked={filter === name}
+            onClick={() => setFilter(name)}
+          >
+            {TODO_FILTERS[name].label} ({todos.filter(TODO_FILTERS[name].matches).length})
+          </Button>
+        ))}
+      </div>
       
-      {/* ❌ BAD: No keys - React gets confused when list changes */}
+      {/* ❌ BAD: No keys - React gets confused when list changes (see it live in KeysDemo below) */}
       {/* <div>
         <h3>This is the bad example</h3>
         {todos.map(todo => 
@@ -438,21 +822,39 @@ function TodoList() {
 
       {/* ✅ GOOD: Unique keys help React track items */}
       {/* 🐍 Python: Like enumerate() giving each item an index */}
+      {/* Drag the ⠿ handle, or focus it and use Space + arrow keys, to reorder */}
       <div>
-        <h3>This is the good example</h3>
-        {todos.map(todo => (
-          <div 
-            key={todo.id} 
-            onClick={() => toggleTodo(todo.id)}
-            className={`todo-item ${todo.completed ? 'todo-completed' : ''}`}
-          >
-            <span className="mr-2">
-              {todo.completed ? '✅' : '⬜'}
-            </span>
-            {todo.text}
-          </div>
-        ))}
+        <SortableList
+          items={visibleTodos}
+          getKey={todo => todo.id}
+          getLabel={todo => todo.text}
+          onReorder={reorderTodos}
+          label="Todos"
+          renderItem={(todo, { handle }) => (
+            <TodoItem
+              todo={todo}
+              handle={handle}
+              today={today}
+              onToggle={toggleTodo}
+              onRename={renameTodo}
+              onDelete={deleteTodo}
+            />
+          )}
+        />
+        {visibleTodos.length === 0 && (
+          <p className="text-sm text-center p-4" style={{ color: 'var(--muted-foreground)' }}>
+            {todos.length === 0 ? 'Nothing to do - add your first todo above' : `No ${TODO_FILTERS[filter].label.toLowerCase()} todos`}
+          </p>
+        )}
       </div>
+
+      {completedCount > 0 && (
+        <div className="text-center mt-4">
+          <Button variant="secondary" size="sm" onClick={clearCompleted}>
+            Clear completed ({completedCount})
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -467,6 +869,7 @@ function TodoList() {
 • Always prevent default behavior in form submissions
 • Use onChange to keep state in sync with inputs
 • Validate inputs and show helpful error messages
+• Describe fields once in a schema - the browser and the server run the same rules
 • useCallback prevents unnecessary re-renders in child components
 • Avoid inline functions in JSX for better performance
 • Store and display multiple submitted data entries for better user experience
@@ -474,111 +877,43 @@ function TodoList() {
 • Array state management for multiple data entries
 */
 
-// Type definition for submitted form data
-interface SubmittedFormData {
-  id: number; // Unique identifier for each submission
-  name: string;
-  email: string;
-  message: string;
-  submittedAt: string; // Timestamp when form was submitted
+interface ContactFormProps {
+  /** Loaded on the server, newest first - every action revalidates the page, so this stays current */
+  submissions: ContactSubmission[];
 }
 
-function ContactForm() {
-  const [formData, setFormData] = useState({
-    name: '',
-    email: '',
-    message: ''
-  });
-  const [errors, setErrors] = useState<Record<string, string>>({});
-  const [submittedDataList, setSubmittedDataList] = useState<SubmittedFormData[]>([]);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [nextId, setNextId] = useState(1); // Counter for generating unique IDs
-
-  // ❌ BAD: Inline functions create new functions every render
-  // This causes child components to re-render unnecessarily
-  // const handleSubmit = (e: React.FormEvent) => {
-  //   e.preventDefault();
-  //   // Validation logic here
-  //   setSubmitted(true);
-  // };
-  
-  // In JSX: onChange={(e) => setFormData({...formData, name: e.target.value})}
-  // Creates new function every render = performance issue!
-
-  // ✅ GOOD: useCallback prevents unnecessary re-renders
-  const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({
-      ...prev,
-      [name]: value
-    }));
-    
-    // Clear error when user starts typing
-    if (errors[name]) {
-      setErrors(prev => ({
-        ...prev,
-        [name]: ''
-      }));
-    }
-  }, [errors]);
-
-  const handleSubmit = useCallback((e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // Simple validation
-    const newErrors: Record<string, string> = {};
-    if (!formData.name.trim()) newErrors.name = 'Name is required';
-    if (!formData.email.includes('@')) newErrors.email = 'Valid email required';
-    if (!formData.message.trim()) newErrors.message = 'Message is required';
-    
-    if (Object.keys(newErrors).length > 0) {
-      setErrors(newErrors);
-      return;
-    }
-    
-    // Show loading state during submission
-    setIsSubmitting(true);
-    
-    // Simulate API call delay
-    setTimeout(() => {
-      // Create new submission with unique ID
-      const newSubmission: SubmittedFormData = {
-        id: nextId,
-        ...formData,
-        submittedAt: new Date().toLocaleString()
-      };
-      
-      // Add to the list of submissions (newest first)
-      setSubmittedDataList(prev => [newSubmission, ...prev]);
-      setNextId(prev => prev + 1);
-      
-      // Clear form data and reset states
-      setFormData({ name: '', email: '', message: '' });
-      setErrors({});
-      setIsSubmitting(false);
-    }, 1500);
-  }, [formData, nextId]);
-
-  // Delete specific submission by ID
-  const handleDeleteSubmission = useCallback((id: number) => {
-    setSubmittedDataList(prev => prev.filter(submission => submission.id !== id));
-  }, []);
+const INITIAL_CONTACT_STATE: ContactActionState = { status: 'idle' };
 
-  // Delete all submissions
-  const handleDeleteAll = useCallback(() => {
-    setSubmittedDataList([]);
-  }, []);
+function ContactForm({ submissions }: ContactFormProps) {
+  // The form posts to a server action, so it still works before JavaScript loads.
+  // 🐍 Python: like a Flask view that validates request.form and re-renders the template
+  const [state, formAction, isPending] = useActionState(submitContact, INITIAL_CONTACT_STATE);
 
-  // Calculate submission statistics using useMemo for performance
-  const submissionStats = useMemo(() => {
-    return {
-      total: submittedDataList.length,
-      uniqueEmails: new Set(submittedDataList.map(s => s.email)).size,
-      avgMessageLength: submittedDataList.length > 0 
-        ? Math.round(submittedDataList.reduce((sum, s) => sum + s.message.length, 0) / submittedDataList.length)
-        : 0
-    };
-  }, [submittedDataList]);
+  // ❌ BAD: Hand-rolled checks drift from the server's rules
+  // if (!formData.email.includes('@')) newErrors.email = 'Valid email required';
+  // ...while the server checks a regex and a length limit - two sources of truth
+
+  // ✅ GOOD: One schema (lib/contact.ts) - useForm runs it in the browser, validateContact on the server.
+  // Without JS the page re-renders with the action's result, so start from it
+  const form = useForm({
+    schema: contactSchema,
+    initialValues: state.status === 'error' ? state.values : undefined,
+    initialErrors: state.status === 'error' ? state.fieldErrors : undefined,
+  });
+  const { reset: resetForm, setErrors: setFormErrors } = form;
+
+  // Apply each new action result: clear the form on success, show the server's verdict otherwise
+  useEffect(() => {
+    if (state.status === 'success') resetForm();
+    else if (state.status === 'error') setFormErrors(state.fieldErrors, { focus: true });
+  }, [state, resetForm, setFormErrors]);
+
+  // Only valid input leaves the browser - then it goes through the same action a no-JS post would
+  const handleSubmit = form.handleSubmit(values => {
+    const formData = new FormData();
+    for (const [name, value] of Object.entries(values)) formData.set(name, value);
+    startTransition(() => formAction(formData));
+  });
 
   return (
     <div className="widget">
@@ -588,7 +923,7 @@ function ContactForm() {
         <span className="pattern-badge">Forms</span>
       </h3>
       <p className="text-sm mb-4" style={{ color: 'var(--muted-foreground)' }}>
-        Controlled components with validation and multiple data persistence
+        Schema-driven validation with useForm, saved on the server by a server action
       </p>
       
       {/* Side-by-side layout */}
@@ -600,294 +935,75 @@ function ContactForm() {
             📝 Submit Message
           </h4>
           
-          {isSubmitting && (
-            <div className="mb-4 p-3 rounded text-center" style={{ background: 'rgba(59, 130, 246, 0.1)' }}>
+          {isPending && (
+            <div className="mb-4 p-3 rounded text-center" style={{ background: tint('info', 10) }}>
               <div className="status-loading">📤 Sending...</div>
             </div>
           )}
+
+          {state.status === 'error' && state.formError && (
+            <div className="error mb-4" role="alert">
+              ⚠️ {state.formError}
+            </div>
+          )}
+
+          {form.submitError && (
+            <div className="error mb-4" role="alert">
+              ⚠️ {form.submitError}
+            </div>
+          )}
           
-          <form onSubmit={handleSubmit}>
+          <form action={formAction} onSubmit={handleSubmit} noValidate>
             <div className="mb-4">
               <input
-                name="name"
-                value={formData.name}
-                onChange={handleChange}
+                {...form.register('name')}
                 placeholder="Your name"
+                aria-label="Name"
                 className="input"
-                disabled={isSubmitting}
+                maxLength={CONTACT_LIMITS.name}
+                disabled={isPending}
               />
-              {errors.name && <div className="error">{errors.name}</div>}
+              <FieldFeedback state={form.fieldState('name')} />
             </div>
             
             <div className="mb-4">
               <input
-                name="email"
+                {...form.register('email')}
                 type="email"
-                value={formData.email}
-                onChange={handleChange}
                 placeholder="Your email"
+                aria-label="Email"
                 className="input"
-                disabled={isSubmitting}
+                maxLength={CONTACT_LIMITS.email}
+                disabled={isPending}
               />
-              {errors.email && <div className="error">{errors.email}</div>}
+              <FieldFeedback state={form.fieldState('email')} />
             </div>
             
             <div className="mb-4">
               <textarea
-                name="message"
-                value={formData.message}
-                onChange={handleChange}
+                {...form.register('message')}
                 placeholder="Your message"
+                aria-label="Message"
                 className="textarea"
-                disabled={isSubmitting}
+                maxLength={CONTACT_LIMITS.message}
+                disabled={isPending}
               />
-              {errors.message && <div className="error">{errors.message}</div>}
+              <FieldFeedback state={form.fieldState('message')} />
             </div>
             
-            <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Sending...' : 'Send Message'}
-            </Button>
+            <div className="flex items-center gap-3">
+              <Button type="submit" loading={isPending}>
+                {isPending ? 'Sending...' : 'Send Message'}
+              </Button>
+              {form.isDirty && !isPending && (
+                <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>Unsent changes</span>
+              )}
+            </div>
           </form>
         </div>
         
         {/* Right side - Submitted Data Display */}
-        <div>
-          <div className="flex justify-between items-center mb-4">
-            <h4 className="text-lg font-bold" style={{ color: 'var(--foreground)' }}>
-              📋 Message History
-            </h4>
-            {submittedDataList.length > 0 && (
-              <Button 
-                variant="destructive" 
-                onClick={handleDeleteAll}
-                style={{ 
-                  fontSize: '12px', 
-                  padding: '6px 12px',
-                  borderRadius: '8px',
-                  fontWeight: '500'
-                }}
-              >
-                🗑️ Clear All
-              </Button>
-            )}
-          </div>
-          
-          {/* Modern Statistics Cards */}
-          {submittedDataList.length > 0 && (
-            <div className="grid grid-cols-3 gap-3 mb-6">
-              <div className="text-center p-3 rounded-xl" style={{ 
-                background: 'linear-gradient(135deg, rgba(59, 130, 246, 0.1) 0%, rgba(59, 130, 246, 0.05) 100%)',
-                border: '1px solid rgba(59, 130, 246, 0.2)'
-              }}>
-                <div className="text-2xl font-bold" style={{ color: 'var(--primary)' }}>
-                  {submissionStats.total}
-                </div>
-                <div className="text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>
-                  Total Messages
-                </div>
-              </div>
-              <div className="text-center p-3 rounded-xl" style={{ 
-                background: 'linear-gradient(135deg, rgba(16, 185, 129, 0.1) 0%, rgba(16, 185, 129, 0.05) 100%)',
-                border: '1px solid rgba(16, 185, 129, 0.2)'
-              }}>
-                <div className="text-2xl font-bold" style={{ color: '#10b981' }}>
-                  {submissionStats.uniqueEmails}
-                </div>
-                <div className="text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>
-                  Unique Senders
-                </div>
-              </div>
-              <div className="text-center p-3 rounded-xl" style={{ 
-                background: 'linear-gradient(135deg, rgba(245, 158, 11, 0.1) 0%, rgba(245, 158, 11, 0.05) 100%)',
-                border: '1px solid rgba(245, 158, 11, 0.2)'
-              }}>
-                <div className="text-2xl font-bold" style={{ color: '#f59e0b' }}>
-                  {submissionStats.avgMessageLength}
-                </div>
-                <div className="text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>
-                  Avg Length
-                </div>
-              </div>
-            </div>
-          )}
-          
-          {submittedDataList.length > 0 ? (
-            <div className="space-y-4 max-h-96 overflow-y-auto pr-2" style={{
-              scrollbarWidth: 'thin',
-              scrollbarColor: 'var(--muted-foreground) transparent'
-            }}>
-              {submittedDataList.map((submission, index) => (
-                <div 
-                  key={submission.id} 
-                  className="group relative p-4 rounded-2xl transition-all duration-300 hover:scale-[1.02]" 
-                  style={{ 
-                    background: 'var(--card)',
-                    border: '1px solid var(--border)',
-                    boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
-                  }}
-                >
-                  {/* Modern message header with gradient badge */}
-                  <div className="flex justify-between items-start mb-4">
-                    <div className="flex items-center gap-2">
-                      <div 
-                        className="px-3 py-1 rounded-full text-xs font-bold"
-                        style={{ 
-                          background: index === 0 
-                            ? 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)' 
-                            : 'linear-gradient(135deg, #f093fb 0%, #f5576c 100%)',
-                          color: 'white',
-                          boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
-                        }}
-                      >
-                        #{submission.id}
-                      </div>
-                      {index === 0 && (
-                        <div 
-                          className="px-2 py-1 rounded-full text-xs font-medium"
-                          style={{ 
-                            background: 'rgba(34, 197, 94, 0.1)',
-                            color: '#22c55e',
-                            border: '1px solid rgba(34, 197, 94, 0.2)'
-                          }}
-                        >
-                          ✨ Latest
-                        </div>
-                      )}
-                    </div>
-                    <Button 
-                      variant="destructive" 
-                      onClick={() => handleDeleteSubmission(submission.id)}
-                      className="opacity-0 group-hover:opacity-100 transition-opacity duration-200"
-                      style={{ 
-                        fontSize: '11px', 
-                        padding: '4px 8px',
-                        borderRadius: '8px',
-                        background: 'rgba(239, 68, 68, 0.1)',
-                        border: '1px solid rgba(239, 68, 68, 0.2)',
-                        color: '#ef4444'
-                      }}
-                    >
-                      ✕
-                    </Button>
-                  </div>
-                  
-                  {/* Enhanced submission data with better typography */}
-                  <div className="space-y-3">
-                    <div>
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="text-xs font-bold" style={{ color: 'var(--primary)' }}>
-                          👤 SENDER
-                        </span>
-                      </div>
-                      <div 
-                        className="text-sm font-medium px-3 py-2 rounded-lg"
-                        style={{ 
-                          background: 'var(--muted)',
-                          color: 'var(--foreground)'
-                        }}
-                      >
-                        {submission.name}
-                      </div>
-                    </div>
-                    
-                    <div>
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="text-xs font-bold" style={{ color: 'var(--primary)' }}>
-                          📧 EMAIL
-                        </span>
-                      </div>
-                      <div 
-                        className="text-sm font-mono px-3 py-2 rounded-lg"
-                        style={{ 
-                          background: 'var(--muted)',
-                          color: 'var(--foreground)',
-                          fontSize: '12px'
-                        }}
-                      >
-                        {submission.email}
-                      </div>
-                    </div>
-                    
-                    <div>
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="text-xs font-bold" style={{ color: 'var(--primary)' }}>
-                          💬 MESSAGE
-                        </span>
-                        <span 
-                          className="text-xs px-2 py-1 rounded-full"
-                          style={{ 
-                            background: 'rgba(99, 102, 241, 0.1)',
-                            color: '#6366f1'
-                          }}
-                        >
-                          {submission.message.length} chars
-                        </span>
-                      </div>
-                      <div 
-                        className="text-sm leading-relaxed px-3 py-2 rounded-lg"
-                        style={{ 
-                          background: 'var(--muted)',
-                          color: 'var(--foreground)',
-                          lineHeight: '1.5'
-                        }}
-                      >
-                        {submission.message}
-                      </div>
-                    </div>
-                    
-                    {/* Modern timestamp with icon */}
-                    <div 
-                      className="flex items-center gap-2 pt-3 mt-3"
-                      style={{ 
-                        borderTop: '1px solid var(--border)'
-                      }}
-                    >
-                      <span className="text-xs">🕒</span>
-                      <span className="text-xs font-medium" style={{ color: 'var(--muted-foreground)' }}>
-                        {submission.submittedAt}
-                      </span>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center p-12 rounded-2xl" style={{ 
-              background: 'linear-gradient(135deg, var(--muted) 0%, rgba(255,255,255,0.1) 100%)',
-              border: '2px dashed var(--border)'
-            }}>
-              {/* Modern empty state */}
-              <div className="mb-4">
-                <div 
-                  className="inline-flex items-center justify-center w-16 h-16 rounded-full mb-4"
-                  style={{ 
-                    background: 'linear-gradient(135deg, rgba(99, 102, 241, 0.1) 0%, rgba(139, 92, 246, 0.1) 100%)',
-                    border: '2px solid rgba(99, 102, 241, 0.2)'
-                  }}
-                >
-                  <span className="text-2xl">📭</span>
-                </div>
-              </div>
-              <h3 className="text-lg font-bold mb-2" style={{ color: 'var(--foreground)' }}>
-                No Messages Yet
-              </h3>
-              <p className="text-sm leading-relaxed" style={{ color: 'var(--muted-foreground)' }}>
-                Submit your first message using the form<br />
-                to see it beautifully displayed here!
-              </p>
-              <div 
-                className="inline-block mt-4 px-4 py-2 rounded-full text-xs font-medium"
-                style={{ 
-                  background: 'rgba(99, 102, 241, 0.1)',
-                  color: '#6366f1',
-                  border: '1px solid rgba(99, 102, 241, 0.2)'
-                }}
-              >
-                ✨ Ready for your first message
-              </div>
-            </div>
-          )}
-        </div>
+        <ContactHistory submissions={submissions} />
       </div>
     </div>
   );
@@ -928,7 +1044,7 @@ function ContactForm() {
 
 function ThemeToggle() {
   // Using the custom hook from our contexts folder
-  const { theme, toggleTheme } = useTheme();
+  const { theme, resolvedTheme, themes, setTheme } = useTheme();
   
   return (
     <div className="widget">
@@ -943,10 +1059,23 @@ function ThemeToggle() {
       <div className="text-center">
         <div className="text-xl mb-4">
           Current theme: <strong>{theme}</strong>
+          {theme === 'system' && (
+            <span className="text-sm" style={{ color: 'var(--muted-foreground)' }}> (following OS: {resolvedTheme})</span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2 justify-center" role="radiogroup" aria-label="Theme">
+          {themes.map(option => (
+            <button
+              key={option.name}
+              role="radio"
+              aria-checked={theme === option.name}
+              onClick={() => setTheme(option.name)}
+              className={`btn ${theme === option.name ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
-        <Button onClick={toggleTheme}>
-          Switch to {theme === 'light' ? '🌙 Dark' : '☀️ Light'} mode
-        </Button>
       </div>
     </div>
   );
@@ -964,14 +1093,163 @@ function ThemeToggle() {
 • Custom hooks follow the same rules as built-in hooks
 • Hooks must start with "use" and only be called at top level
 • localStorage integration is a perfect use case for custom hooks
+• Storage adapters that can list their keys make a whole-app backup a small, pure library
 */
 
 // Custom hook - reusable logic
 // Note: The actual implementation is now in src/hooks/useLocalStorage.ts for better organization
 
+// Notes get a slice of localStorage's ~5MB, not all of it
+const NOTES_BUDGET_BYTES = 100_000;
+
+// Short plain-text name for a note, for button labels and announcements
+function noteLabel(note: Note): string {
+  const text = markdownToText(note.text).trim();
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+// Enter submits, Shift+Enter starts a new line
+function submitOnEnter(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+  if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+    e.preventDefault();
+    e.currentTarget.form?.requestSubmit();
+  }
+}
+
+interface NoteItemProps {
+  note: Note;
+  /** Drag handle from SortableList */
+  handle: React.ReactNode;
+  /** Search words to highlight */
+  highlight: string[];
+  /** The tag being filtered on, if any */
+  activeTag: string | null;
+  onSave: (id: string, text: string, tags: string[]) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  onTagClick: (tag: string) => void;
+}
+
+function NoteItem({ note, handle, highlight, activeTag, onSave, onTogglePin, onDelete, onTagClick }: NoteItemProps) {
+  // Draft while editing; null when not editing
+  const [draft, setDraft] = useState<{ text: string; tags: string } | null>(null);
+  const label = noteLabel(note);
+
+  const startEditing = () => setDraft({ text: note.text, tags: note.tags.join(' ') });
+
+  const save = () => {
+    if (draft === null) return;
+    if (draft.text.trim()) onSave(note.id, draft.text.trim(), parseTags(draft.tags));
+    setDraft(null);
+  };
+
+  return (
+    <div className={`note-item flex items-start gap-2 ${note.pinned ? 'note-pinned' : ''}`}>
+      {handle}
+
+      <div className="flex-1 min-w-0">
+        {draft !== null ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              save();
+            }}
+            // Like the todo editor, leaving the editor saves - but moving between its two fields doesn't
+            onBlur={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget)) save();
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setDraft(null);
+            }}
+            className="flex flex-col gap-2"
+          >
+            <textarea
+              value={draft.text}
+              onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+              onKeyDown={submitOnEnter}
+              className="textarea"
+              aria-label="Edit note"
+              autoFocus
+            />
+            <input
+              value={draft.tags}
+              onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+              placeholder="Tags, e.g. react hooks"
+              className="input"
+              aria-label="Edit tags"
+            />
+          </form>
+        ) : (
+          <>
+            <div onDoubleClick={startEditing}>
+              <Markdown source={note.text} highlight={highlight} className="text-sm break-words" />
+            </div>
+            {note.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {note.tags.map(tag => (
+                  <button
+                    key={tag}
+                    className="tag-chip"
+                    aria-pressed={activeTag === tag}
+                    onClick={() => onTagClick(tag)}
+                  >
+                    #{splitMatches(tag, highlight).map((part, index) => (
+                      part.match ? <mark key={index}>{part.text}</mark> : part.text
+                    ))}
+                  </button>
+                ))}
+              </div>
+            )}
+            {note.updatedAt && (
+              <div className="text-xs mt-1" style={{ color: 'var(--muted-foreground)' }}>
+                {note.updatedAt === note.createdAt ? 'Added' : 'Edited'} {new Date(note.updatedAt).toLocaleString()}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onTogglePin(note.id)}
+        aria-pressed={note.pinned}
+        aria-label={`Pin "${label}"`}
+      >
+        {note.pinned ? '📌' : '📍'}
+      </Button>
+      {draft === null && (
+        <Button variant="ghost" size="icon" onClick={startEditing} aria-label={`Edit "${label}"`}>
+          ✏️
+        </Button>
+      )}
+      <Button variant="ghost" size="icon" onClick={() => onDelete(note.id)} aria-label={`Delete "${label}"`}>
+        ✕
+      </Button>
+    </div>
+  );
+}
+
 function NotesWidget() {
-  const [notes, setNotes] = useLocalStorage<string[]>('tutorial-notes', []);
+  // syncExternalStore: once hydrated, notes come straight from storage - no empty-then-filled flash
+  const [notes, setNotes, { bytes, quotaError, trimmed }] = useLocalStorage<Note[]>(NOTES_STORAGE_KEY, [], {
+    version: NOTES_VERSION,
+    migrations: notesMigrations,
+    validate: isNoteList,
+    syncExternalStore: true,
+    maxBytes: NOTES_BUDGET_BYTES,
+    // Over budget? Drop the oldest unpinned notes instead of silently losing the new one
+    trim: trimOldestNotes(500),
+  });
   const [newNote, setNewNote] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [search, setSearch] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [confirmingClear, setConfirmingClear] = useState(false);
+  // Client-only, and refreshed every minute so the activity chart moves on at midnight
+  const [today, setToday] = useState<string | null>(null);
+  useTicker(() => setToday(localDate()), { interval: 60_000 });
+  const { toast } = useToast();
 
   // ❌ BAD: Expensive calculation runs on every render (even when notes don't change)
   // const noteStats = {
@@ -983,26 +1261,89 @@ function NotesWidget() {
 
   // ✅ GOOD: useMemo only recalculates when notes change
   // 🐍 Python: Like @lru_cache decorator
+  // Typing in the search box re-renders on every keystroke - none of that reaches this
   const noteStats = useMemo(() => {
     console.log('📊 Calculating note statistics...'); // You'll only see this when notes change
     return {
       total: notes.length,
-      long: notes.filter(note => note.length > 10).length,
-      avgLength: notes.length > 0 ? Math.round(notes.reduce((sum, note) => sum + note.length, 0) / notes.length) : 0
+      long: notes.filter(note => note.text.length > 10).length,
+      avgLength: notes.length > 0 ? Math.round(notes.reduce((sum, note) => sum + note.text.length, 0) / notes.length) : 0,
+      pinned: notes.filter(note => note.pinned).length,
+      tagCounts: countTags(notes),
+      activity: today ? activityByDay(notes, today) : [],
     };
-  }, [notes]);
+  }, [notes, today]);
 
-  const addNote = useCallback(() => {
-    if (newNote.trim()) {
-      setNotes([...notes, newNote.trim()]);
-      setNewNote('');
-    }
-  }, [notes, newNote, setNotes]);
+  // Functional updater: no need to close over `notes` (and no stale-closure writes)
+  const addNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = newNote.trim();
+    if (!text) return;
+    setNotes(prev => [...prev, createNote(createId(), text, parseTags(newTags))]);
+    setNewNote('');
+    setNewTags('');
+  };
 
+  const saveNote = useCallback((id: string, text: string, tags: string[]) => {
+    setNotes(prev => prev.map(note => {
+      if (note.id !== id) return note;
+      // Unchanged? Keep the old timestamp - closing the editor isn't an edit
+      if (note.text === text && note.tags.join(' ') === tags.join(' ')) return note;
+      return { ...note, text, tags, updatedAt: new Date().toISOString() };
+    }));
+  }, [setNotes]);
+
+  const togglePin = useCallback((id: string) => {
+    setNotes(prev => prev.map(note => (note.id === id ? { ...note, pinned: !note.pinned } : note)));
+  }, [setNotes]);
+
+  // One note goes straight away - Undo puts it back where it was
+  const deleteNote = useCallback((id: string) => {
+    const index = notes.findIndex(note => note.id === id);
+    if (index === -1) return;
+    const removed = notes[index];
+    setNotes(prev => prev.filter(note => note.id !== id));
+    toast({
+      message: `Deleted "${noteLabel(removed)}"`,
+      action: {
+        label: 'Undo',
+        onClick: () => setNotes(prev => (prev.some(note => note.id === id) ? prev : [...prev.slice(0, index), removed, ...prev.slice(index)])),
+      },
+      duration: UNDO_DURATION,
+    });
+  }, [notes, setNotes, toast]);
+
+  // Clearing asks first, then still offers an Undo - notes added in the meantime are kept
   const clearNotes = useCallback(() => {
+    setConfirmingClear(false);
+    const removed = notes;
+    const removedIds = new Set(removed.map(note => note.id));
     setNotes([]);
+    toast({
+      message: `Cleared ${removed.length} note${removed.length === 1 ? '' : 's'}`,
+      action: {
+        label: 'Undo',
+        onClick: () => setNotes(prev => [...removed, ...prev.filter(note => !removedIds.has(note.id))]),
+      },
+      duration: UNDO_DURATION,
+    });
+  }, [notes, setNotes, toast]);
+
+  const toggleTag = useCallback((tag: string) => {
+    setActiveTag(current => (current === tag ? null : tag));
+  }, []);
+
+  // The list shows pinned notes first - slot the reordered subset back around the hidden notes
+  const reorderNotes = useCallback((reordered: Note[]) => {
+    setNotes(prev => applyOrder(prev, reordered, note => note.id));
   }, [setNotes]);
 
+  const words = searchWords(search);
+  // A tag whose last note was deleted can't filter anything any more
+  const tagFilter = noteStats.tagCounts.some(({ tag }) => tag === activeTag) ? activeTag : null;
+  const visibleNotes = pinnedFirst(notes.filter(note => matchesNote(note, words, tagFilter)));
+  const busiestDay = Math.max(1, ...noteStats.activity.map(day => day.created + day.edited));
+
   return (
     <div className="widget">
       <h3>
@@ -1010,14 +1351,18 @@ function NotesWidget() {
         Smart Notes
         <span className="pattern-badge">Custom Hooks</span>
       </h3>
-      
-      <div className="grid grid-cols-3 gap-2 text-center p-3 rounded mb-4" style={{ 
+
+      <div className="grid grid-cols-4 gap-2 text-center p-3 rounded mb-4" style={{
         background: 'var(--muted)'
       }}>
         <div>
           <div className="font-bold">{noteStats.total}</div>
           <div className="text-xs" style={{ color: 'var(--muted-foreground)' }}>Notes</div>
         </div>
+        <div>
+          <div className="font-bold">{noteStats.pinned}</div>
+          <div className="text-xs" style={{ color: 'var(--muted-foreground)' }}>Pinned</div>
+        </div>
         <div>
           <div className="font-bold">{noteStats.long}</div>
           <div className="text-xs" style={{ color: 'var(--muted-foreground)' }}>Long</div>
@@ -1027,43 +1372,142 @@ function NotesWidget() {
           <div className="text-xs" style={{ color: 'var(--muted-foreground)' }}>Avg chars</div>
         </div>
       </div>
-      
-      <div className="mb-4">
+
+      {noteStats.activity.length > 0 && (
+        <div className="mb-4">
+          <p className="text-xs mb-1" style={{ color: 'var(--muted-foreground)' }}>Activity, last 7 days</p>
+          <ol className="grid grid-cols-7 gap-1 items-end h-16" aria-label="Notes created and edited per day">
+            {noteStats.activity.map(({ day, created, edited }) => {
+              const weekday = new Date(`${day}T00:00`).toLocaleDateString(undefined, { weekday: 'short' });
+              return (
+                <li
+                  key={day}
+                  className="flex flex-col justify-end h-full"
+                  aria-label={`${weekday}: ${created} created, ${edited} edited`}
+                  title={`${day}: ${created} created, ${edited} edited`}
+                >
+                  <div style={{ height: `${(edited / busiestDay) * 100}%`, background: tint('primary', 40) }} />
+                  <div style={{ height: `${(created / busiestDay) * 100}%`, background: token('primary') }} />
+                  <div className="text-xs text-center" aria-hidden="true" style={{ color: 'var(--muted-foreground)' }}>
+                    {weekday}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+
+      <p className="text-xs mb-4" style={{ color: 'var(--muted-foreground)' }}>
+        💾 {formatBytes(bytes)} of {formatBytes(NOTES_BUDGET_BYTES)} used
+      </p>
+      {quotaError && (
+        <div className="error mb-4">
+          ⚠️ Your last note wasn&apos;t saved - storage is full. Clear some notes to make room.
+        </div>
+      )}
+      {trimmed && (
+        <div className="text-xs mb-4" style={{ color: 'var(--warning)' }}>
+          ⚠️ The oldest unpinned notes were removed to stay within the storage budget.
+        </div>
+      )}
+
+      <form onSubmit={addNote} className="flex flex-col gap-2 mb-4">
+        <textarea
+          value={newNote}
+          onChange={(e) => setNewNote(e.target.value)}
+          onKeyDown={submitOnEnter}
+          placeholder="Add a note... (Markdown: **bold**, *italic*, `code`, - lists, [links](https://...))"
+          className="textarea"
+          aria-label="New note"
+        />
         <div className="flex gap-2">
           <input
-            value={newNote}
-            onChange={(e) => setNewNote(e.target.value)}
-            placeholder="Add a note..."
+            value={newTags}
+            onChange={(e) => setNewTags(e.target.value)}
+            placeholder="Tags, e.g. react hooks"
             className="input flex-1"
-            onKeyPress={(e) => e.key === 'Enter' && addNote()}
+            aria-label="Tags for the new note"
           />
-          <Button onClick={addNote}>Add</Button>
+          <Button type="submit" disabled={!newNote.trim()}>Add</Button>
         </div>
-      </div>
-      
-      <div className="max-h-48 overflow-y-auto">
+      </form>
+
+      {notes.length > 0 && (
+        <div className="flex flex-col gap-2 mb-4">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search notes..."
+            className="input"
+            aria-label="Search notes"
+          />
+          {noteStats.tagCounts.length > 0 && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by tag">
+              {noteStats.tagCounts.map(({ tag, count }) => (
+                <button key={tag} className="tag-chip" aria-pressed={tagFilter === tag} onClick={() => toggleTag(tag)}>
+                  #{tag} ({count})
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="max-h-96 overflow-y-auto">
         {notes.length === 0 ? (
-          <p className="text-sm text-center p-4" style={{ 
+          <p className="text-sm text-center p-4" style={{
             color: 'var(--muted-foreground)'
           }}>
             No notes yet. Add one above!
           </p>
+        ) : visibleNotes.length === 0 ? (
+          <p className="text-sm text-center p-4" style={{ color: 'var(--muted-foreground)' }}>
+            No notes match{search.trim() && ` "${search.trim()}"`}{tagFilter && ` in #${tagFilter}`}
+          </p>
         ) : (
-          notes.map((note, index) => (
-            <div key={index} className="note-item">
-              {note}
-            </div>
-          ))
+          // ❌ BAD: key={index} - after a reorder React would reuse the wrong row
+          // ✅ GOOD: SortableList keys every row by note.id
+          <SortableList
+            items={visibleNotes}
+            getKey={note => note.id}
+            getLabel={noteLabel}
+            onReorder={reorderNotes}
+            label="Notes"
+            renderItem={(note, { handle }) => (
+              <NoteItem
+                note={note}
+                handle={handle}
+                highlight={words}
+                activeTag={tagFilter}
+                onSave={saveNote}
+                onTogglePin={togglePin}
+                onDelete={deleteNote}
+                onTagClick={toggleTag}
+              />
+            )}
+          />
         )}
       </div>
-      
+
       {notes.length > 0 && (
         <div className="mt-4 text-center">
-          <Button variant="destructive" onClick={clearNotes}>
+          <Button variant="destructive" onClick={() => setConfirmingClear(true)}>
             Clear All Notes
           </Button>
         </div>
       )}
+
+      <ConfirmDialog
+        open={confirmingClear}
+        title="Clear all notes?"
+        description={`All ${notes.length} notes will be removed from this browser.`}
+        confirmLabel="Clear notes"
+        destructive
+        onConfirm={clearNotes}
+        onCancel={() => setConfirmingClear(false)}
+      />
     </div>
   );
 }
@@ -1102,19 +1546,21 @@ function Section({ number, title, description, children }: SectionProps) {
 // MAIN DASHBOARD COMPONENT
 // =====================================
 
-function DashboardContent() {
-  // Using the custom hook from our contexts folder
-  const { theme } = useTheme();
+interface DashboardProps {
+  contactSubmissions: ContactSubmission[];
+}
 
+function DashboardContent({ contactSubmissions }: DashboardProps) {
+  // Theme variables cascade down from <html data-theme> - no class needed here
   return (
-    <div className={`dashboard-center ${theme}`}>
+    <div className="dashboard-center">
       {/* Foundation Patterns */}
       <Section
         number={1}
         title="State Management"
         description="useState + useEffect - The foundation of React components"
       >
-        <Counter />
+        <Counter step={1} min={-10} max={10} persist />
         <Clock />
       </Section>
 
@@ -1132,6 +1578,7 @@ function DashboardContent() {
           description="Showing the right content at the right time (Loading states, error states, feature flags)"
         >
           <UserProfile />
+          <FeatureFlagsPanel />
         </Section>
 
         <Section
@@ -1140,6 +1587,7 @@ function DashboardContent() {
           description="List Rendering & Keys - Efficiently displaying arrays of data"
         >
           <TodoList />
+          <KeysDemo />
         </Section>
 
         <Section
@@ -1147,7 +1595,8 @@ function DashboardContent() {
           title="User Interaction"
           description="Event Handling & Forms - Managing user input and validation"
         >
-          <ContactForm />
+          <ContactForm submissions={contactSubmissions} />
+          <TeamSignupForm />
         </Section>
 
         <Section
@@ -1156,6 +1605,7 @@ function DashboardContent() {
           description="Context API - Sharing state across components without prop drilling - useCallback"
         >
           <ThemeToggle />
+          <ThemeEditor />
         </Section>
 
         <Section
@@ -1164,11 +1614,12 @@ function DashboardContent() {
           description="Custom Hooks & Performance - Reusable logic and optimization"
         >
           <NotesWidget />
+          <BackupPanel />
         </Section>
       </div>
     );
 }
 
-export default function Dashboard() {
-  return <DashboardContent />;
+export default function Dashboard({ contactSubmissions }: DashboardProps) {
+  return <DashboardContent contactSubmissions={contactSubmissions} />;
 } 
\ No newline at end of file
@@ -0,0 +1,111 @@
+/**
+ * File: src/components/FeatureFlagsPanel.tsx
+ *
+ * Feature Flags widget - flip flags live and see why each one is on or off
+ * Changes go through FeatureFlagContext, so gated UI elsewhere updates instantly
+ */
+
+'use client';
+
+import React from 'react';
+import Button from './Button';
+import { useFeatureFlags } from '../contexts/FeatureFlagContext';
+import { FLAG_QUERY_PARAM, flagDefinitions, flagNames, rolloutBucket } from '../lib/flags';
+import type { FlagDefinition, FlagSource } from '../lib/flags';
+import { tint, token } from '../lib/tokens';
+
+const SOURCE_LABELS: Record<FlagSource, string> = {
+  url: '🔗 URL',
+  override: '✋ override',
+  rollout: '🎲 rollout',
+  default: 'default',
+};
+
+// Auto = no override, let rollout/default decide
+const CHOICES = [
+  { label: 'Auto', value: null },
+  { label: 'On', value: true },
+  { label: 'Off', value: false },
+] as const;
+
+export default function FeatureFlagsPanel() {
+  const { flags, userId, urlOverrides, overrides, setOverride, clearOverrides, resetUserId } = useFeatureFlags();
+  // Saved overrides, not flags whose source is 'override' - a ?flags= URL can hide a saved one,
+  // and it should still be clearable
+  const overrideCount = Object.keys(overrides).length;
+  const urlCount = Object.keys(urlOverrides).length;
+
+  return (
+    <div className="widget">
+      <h3>
+        <span className="widget-icon">🚩</span>
+        Feature Flags
+        <span className="pattern-badge">Context API</span>
+      </h3>
+      <p className="text-sm mb-4" style={{ color: token('mutedForeground') }}>
+        Flip a flag and the User Profile re-renders with or without the gated UI
+      </p>
+
+      <div className="mb-4">
+        {flagNames.map(name => {
+          const definition: FlagDefinition = flagDefinitions[name];
+          const { enabled, source } = flags[name];
+          const current = overrides[name] ?? null;
+          return (
+            <div key={name} className="note-item">
+              <div className="flex items-center gap-2 mb-1">
+                <code className="text-sm font-bold flex-1">{name}</code>
+                <span className="text-xs" style={{ color: token('mutedForeground') }}>{SOURCE_LABELS[source]}</span>
+                <span
+                  className="text-xs px-2 py-1 rounded-full font-medium"
+                  style={{
+                    background: tint(enabled ? 'success' : 'destructive', 10),
+                    color: token(enabled ? 'success' : 'destructive'),
+                  }}
+                >
+                  {enabled ? 'ON' : 'OFF'}
+                </span>
+              </div>
+              <div className="text-xs mb-2" style={{ color: token('mutedForeground') }}>
+                {definition.description}
+                {definition.rollout !== undefined && (
+                  <> · {definition.rollout}% rollout{userId && `, your bucket: ${rolloutBucket(name, userId)}`}</>
+                )}
+              </div>
+              <div className="flex gap-1" role="radiogroup" aria-label={`${name} override`}>
+                {CHOICES.map(choice => (
+                  <Button
+                    key={choice.label}
+                    size="sm"
+                    variant={current === choice.value ? 'primary' : 'outline'}
+                    role="radio"
+                    aria-checked={current === choice.value}
+                    onClick={() => setOverride(name, choice.value)}
+                    disabled={source === 'url'}
+                  >
+                    {choice.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {urlCount > 0 && (
+        <p className="text-xs mb-4" style={{ color: token('warning') }}>
+          {urlCount} flag{urlCount === 1 ? ' is' : 's are'} set by <code>?{FLAG_QUERY_PARAM}=</code> in the URL and can&apos;t be changed here
+        </p>
+      )}
+
+      <p className="text-xs mb-4" style={{ color: token('mutedForeground') }}>
+        Visitor id: <code>{userId ? userId.slice(0, 8) : '…'}</code> · try <code>?{FLAG_QUERY_PARAM}=compactProfile,-profileDetails</code>
+      </p>
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        <Button variant="secondary" onClick={resetUserId} leadingIcon="🎲">New visitor id</Button>
+        <Button variant="secondary" onClick={clearOverrides} disabled={overrideCount === 0}>Clear overrides</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * File: src/components/FieldFeedback.tsx
+ *
+ * The message under a useForm field - its error, or "Checking..." while an async validator runs
+ * Carries the id that register() points aria-describedby at
+ */
+
+'use client';
+
+import React from 'react';
+import type { FieldState } from '../hooks/useForm';
+
+export default function FieldFeedback({ state }: { state: FieldState }) {
+  if (state.error) {
+    return <div id={state.errorId} className="error">{state.error}</div>;
+  }
+  if (state.validating) {
+    return (
+      <div className="text-xs mt-1" style={{ color: 'var(--muted-foreground)' }} aria-live="polite">
+        Checking...
+      </div>
+    );
+  }
+  return null;
+}
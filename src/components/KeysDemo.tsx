@@ -0,0 +1,180 @@
+/**
+ * File: src/components/KeysDemo.tsx
+ *
+ * Keys demo - the same list rendered three ways, side by side
+ * Every row keeps an uncontrolled input and a bit of local state. Shuffle or
+ * insert at the top and watch which columns keep that state with the right item.
+ */
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Button from './Button';
+import { createId } from '../lib/id';
+import { tint, token } from '../lib/tokens';
+
+interface DemoItem {
+  id: string;
+  label: string;
+}
+
+const STARTER_ITEMS: DemoItem[] = ['🍎 Apple', '🍌 Banana', '🍒 Cherry', '🥝 Kiwi'].map((label, index) => ({
+  id: `fruit-${index}`,
+  label,
+}));
+
+const starterLabels = () => new Map(STARTER_ITEMS.map(item => [item.id, item.label]));
+
+const EXTRA_LABELS = ['🍇 Grape', '🍋 Lemon', '🥭 Mango', '🍑 Peach', '🍐 Pear', '🍓 Strawberry'];
+
+// Each row instance (= each set of DOM nodes) gets a number, so reuse is visible
+// Handed out in an effect, not a useState initializer - Strict Mode calls initializers twice,
+// which would skip numbers and make it look like nodes were created that never were
+let nextNodeNumber = 1;
+
+interface DemoRowProps {
+  item: DemoItem;
+  /** Label lookup for whichever item this row was first created for */
+  labelOf: (id: string) => string;
+  /** Bumped on every list change, so rows can tell whether they were just created */
+  revision: number;
+}
+
+function DemoRow({ item, labelOf, revision }: DemoRowProps) {
+  const [nodeNumber, setNodeNumber] = useState<number | null>(null);
+  // The ref outlives Strict Mode's extra effect run, so each instance takes exactly one number
+  const numbered = useRef(false);
+  useEffect(() => {
+    if (numbered.current) return;
+    numbered.current = true;
+    setNodeNumber(nextNodeNumber++);
+  }, []);
+  // useState initializers run once per instance - exactly what survives (or not) a re-key
+  const [createdFor] = useState(item.id);
+  const [createdAt] = useState(revision);
+  const [likes, setLikes] = useState(0);
+
+  const mismatched = createdFor !== item.id;
+  const isNew = createdAt === revision && revision > 0;
+
+  return (
+    <div
+      className="rounded p-2 mb-2 text-sm"
+      style={{
+        border: `1px solid ${mismatched ? token('destructive') : isNew ? token('info') : token('border')}`,
+        background: mismatched ? tint('destructive', 8) : isNew ? tint('info', 8) : undefined,
+      }}
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <span className="flex-1 font-medium">{item.label}</span>
+        <Button variant="ghost" size="sm" onClick={() => setLikes(prev => prev + 1)} aria-label={`Like ${item.label}`}>
+          ❤️ {likes}
+        </Button>
+      </div>
+      {/* Uncontrolled: the DOM owns this text, so it sticks to the DOM node, not the item */}
+      <input defaultValue={item.label.split(' ')[1]} className="input mb-1" aria-label={`Note for ${item.label}`} />
+      <div className="text-xs" style={{ color: mismatched ? token('destructive') : token('mutedForeground') }}>
+        node #{nodeNumber ?? '…'} ·{' '}
+        {mismatched ? `♻️ reused from ${labelOf(createdFor)}` : isNew ? '🆕 new node' : '✓ same item'}
+      </div>
+    </div>
+  );
+}
+
+type KeyStrategy = 'id' | 'index' | 'none';
+
+const COLUMNS: Array<{ strategy: KeyStrategy; title: string; verdict: string }> = [
+  { strategy: 'id', title: 'key={item.id}', verdict: '✅ State follows the item' },
+  { strategy: 'index', title: 'key={index}', verdict: '❌ State stays at the position' },
+  { strategy: 'none', title: 'No key', verdict: '❌ Same as index (plus a console warning)' },
+];
+
+export default function KeysDemo() {
+  const [items, setItems] = useState<DemoItem[]>(STARTER_ITEMS);
+  const [revision, setRevision] = useState(0);
+  const [generation, setGeneration] = useState(0);
+  // Every label ever shown, so "reused from" can name items that were deleted
+  const [labels, setLabels] = useState(starterLabels);
+
+  const update = (next: DemoItem[]) => {
+    setItems(next);
+    setRevision(prev => prev + 1);
+    setLabels(prev => new Map([...prev, ...next.map(item => [item.id, item.label] as const)]));
+  };
+
+  const shuffle = () => {
+    // Fisher-Yates, retried until the order actually changes
+    let next = items;
+    while (items.length > 1 && next.every((item, index) => item === items[index])) {
+      next = [...items];
+      for (let i = next.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [next[i], next[j]] = [next[j], next[i]];
+      }
+    }
+    update(next);
+  };
+
+  const insertAtTop = () => {
+    const label = EXTRA_LABELS[revision % EXTRA_LABELS.length];
+    update([{ id: createId(), label }, ...items]);
+  };
+
+  const deleteFirst = () => update(items.slice(1));
+
+  const reset = () => {
+    setItems(STARTER_ITEMS);
+    setRevision(0);
+    setLabels(starterLabels());
+    // A new key remounts the columns, clearing every row's state and input - numbering starts over too
+    nextNodeNumber = 1;
+    setGeneration(prev => prev + 1);
+  };
+
+  const labelOf = (id: string) => labels.get(id) ?? 'another item';
+
+  const renderRows = (strategy: KeyStrategy) => {
+    if (strategy === 'id') {
+      return items.map(item => <DemoRow key={item.id} item={item} labelOf={labelOf} revision={revision} />);
+    }
+    if (strategy === 'index') {
+      return items.map((item, index) => <DemoRow key={index} item={item} labelOf={labelOf} revision={revision} />);
+    }
+    // ❌ BAD on purpose: React falls back to matching by position
+    // eslint-disable-next-line react/jsx-key
+    return items.map(item => <DemoRow item={item} labelOf={labelOf} revision={revision} />);
+  };
+
+  return (
+    <div className="widget">
+      <h3>
+        <span className="widget-icon">🔑</span>
+        Why Keys Matter
+        <span className="pattern-badge">Keys</span>
+      </h3>
+      <p className="text-sm mb-4" style={{ color: token('mutedForeground') }}>
+        Type in a few inputs and like some rows, then shuffle or insert at the top.
+        Red rows are DOM nodes React reused for a different item.
+      </p>
+
+      <div className="flex flex-wrap gap-2 justify-center mb-4">
+        <Button variant="secondary" size="sm" onClick={shuffle} leadingIcon="🔀">Shuffle</Button>
+        <Button variant="secondary" size="sm" onClick={insertAtTop} leadingIcon="⬆️">Insert at top</Button>
+        <Button variant="secondary" size="sm" onClick={deleteFirst} disabled={items.length === 0} leadingIcon="🗑️">
+          Delete first
+        </Button>
+        <Button variant="ghost" size="sm" onClick={reset} leadingIcon="↺">Reset</Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3" key={generation}>
+        {COLUMNS.map(({ strategy, title, verdict }) => (
+          <div key={strategy}>
+            <code className="text-sm font-bold">{title}</code>
+            <p className="text-xs mb-2" style={{ color: token('mutedForeground') }}>{verdict}</p>
+            {renderRows(strategy)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * File: src/components/Markdown.tsx
+ *
+ * Renders a note's Markdown as React elements, highlighting search matches
+ * No dangerouslySetInnerHTML anywhere - "<script>" in a note is just text
+ */
+
+import React from 'react';
+import { parseMarkdown } from '../lib/markdown';
+import type { MarkdownBlock, MarkdownInline } from '../lib/markdown';
+import { splitMatches } from '../lib/search';
+
+interface MarkdownProps {
+  source: string;
+  /** Search words to wrap in <mark> */
+  highlight?: string[];
+  className?: string;
+}
+
+// ❌ BAD: <div dangerouslySetInnerHTML={{ __html: marked(source) }} /> - any <img onerror> in a note runs
+// ✅ GOOD: parse to a tree, then build elements - React escapes every string it renders
+
+function Highlighted({ text, words }: { text: string; words: string[] }) {
+  return (
+    <>
+      {splitMatches(text, words).map((part, index) => (part.match ? <mark key={index}>{part.text}</mark> : part.text))}
+    </>
+  );
+}
+
+function Inline({ nodes, words }: { nodes: MarkdownInline[]; words: string[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <Highlighted key={index} text={node.text} words={words} />;
+          case 'code':
+            return <code key={index} className="md-code"><Highlighted text={node.text} words={words} /></code>;
+          case 'strong':
+            return <strong key={index}><Inline nodes={node.children} words={words} /></strong>;
+          case 'em':
+            return <em key={index}><Inline nodes={node.children} words={words} /></em>;
+          case 'link':
+            return node.href ? (
+              <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="md-link">
+                <Inline nodes={node.children} words={words} />
+              </a>
+            ) : (
+              <Inline key={index} nodes={node.children} words={words} />
+            );
+        }
+      })}
+    </>
+  );
+}
+
+// Lines of one paragraph or quote keep their line breaks
+function Lines({ lines, words }: { lines: MarkdownInline[][]; words: string[] }) {
+  return (
+    <>
+      {lines.map((line, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && <br />}
+          <Inline nodes={line} words={words} />
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+function Block({ block, words }: { block: MarkdownBlock; words: string[] }) {
+  switch (block.type) {
+    case 'paragraph':
+      return <p><Lines lines={block.lines} words={words} /></p>;
+    case 'heading': {
+      // Notes sit inside a widget, so # is a small heading, not the page title
+      const Tag = (['h4', 'h5', 'h6'] as const)[block.level - 1];
+      return <Tag className="font-bold"><Inline nodes={block.children} words={words} /></Tag>;
+    }
+    case 'list': {
+      const Tag = block.ordered ? 'ol' : 'ul';
+      return (
+        <Tag className={block.ordered ? 'list-decimal pl-5' : 'list-disc pl-5'}>
+          {block.items.map((item, index) => (
+            <li key={index}><Inline nodes={item} words={words} /></li>
+          ))}
+        </Tag>
+      );
+    }
+    case 'quote':
+      return <blockquote className="md-quote"><Lines lines={block.lines} words={words} /></blockquote>;
+    case 'code':
+      return <pre className="md-pre"><code><Highlighted text={block.text} words={words} /></code></pre>;
+  }
+}
+
+export default function Markdown({ source, highlight = [], className }: MarkdownProps) {
+  const blocks = parseMarkdown(source);
+  return (
+    <div className={`markdown ${className ?? ''}`}>
+      {blocks.map((block, index) => (
+        <Block key={index} block={block} words={highlight} />
+      ))}
+    </div>
+  );
+}
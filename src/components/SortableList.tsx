@@ -0,0 +1,196 @@
+/**
+ * File: src/components/SortableList.tsx
+ *
+ * SortableList - reorder any list by dragging a handle or with the keyboard
+ * Rows are keyed by getKey, so React moves DOM nodes instead of relabelling
+ * them - inputs, focus and local state travel with their item.
+ */
+
+'use client';
+
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { moveItem } from '../lib/reorder';
+
+export interface SortableItemState {
+  /** Drag handle to place in the row - pointer drag, or Space to grab and arrows to move */
+  handle: React.ReactNode;
+  /** Row is being dragged or is grabbed with the keyboard */
+  active: boolean;
+}
+
+interface SortableListProps<T> {
+  items: T[];
+  /** Stable, unique key per item - never the array index */
+  getKey: (item: T) => string;
+  /** Human-readable name for announcements, e.g. the todo's text */
+  getLabel: (item: T) => string;
+  /** Called with the items in their new order */
+  onReorder: (items: T[]) => void;
+  renderItem: (item: T, state: SortableItemState) => React.ReactNode;
+  /** Accessible name for the list */
+  label: string;
+  className?: string;
+}
+
+interface PointerDrag {
+  key: string;
+  /** Slot the item would land in: 0 = before the first row, items.length = after the last */
+  dropIndex: number;
+}
+
+interface KeyboardGrab {
+  key: string;
+  originalIndex: number;
+}
+
+export default function SortableList<T>({
+  items,
+  getKey,
+  getLabel,
+  onReorder,
+  renderItem,
+  label,
+  className,
+}: SortableListProps<T>) {
+  const [drag, setDrag] = useState<PointerDrag | null>(null);
+  const [grab, setGrab] = useState<KeyboardGrab | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const rowRefs = useRef(new Map<string, HTMLLIElement>());
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+
+  // Moving a focused node in the DOM drops its focus - put it back after each keyboard move
+  useLayoutEffect(() => {
+    if (!grab) return;
+    const handle = handleRefs.current.get(grab.key);
+    if (handle && document.activeElement !== handle) handle.focus();
+  }, [grab, items]);
+
+  const indexOf = (key: string) => items.findIndex(item => getKey(item) === key);
+  const position = (index: number) => `position ${index + 1} of ${items.length}`;
+
+  // Rows above the pointer's midpoint come first - the first row below it marks the slot
+  const dropIndexAt = (clientY: number) => {
+    const index = items.findIndex(item => {
+      const rect = rowRefs.current.get(getKey(item))?.getBoundingClientRect();
+      return rect !== undefined && clientY < rect.top + rect.height / 2;
+    });
+    return index === -1 ? items.length : index;
+  };
+
+  const finishDrag = () => {
+    if (!drag) return;
+    const from = indexOf(drag.key);
+    // Removing the item first shifts every later slot up by one
+    const to = drag.dropIndex > from ? drag.dropIndex - 1 : drag.dropIndex;
+    setDrag(null);
+    if (from !== -1 && to !== from) {
+      onReorder(moveItem(items, from, to));
+      setAnnouncement(`Moved ${getLabel(items[from])} to ${position(to)}`);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, item: T) => {
+    const key = getKey(item);
+    const index = indexOf(key);
+
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      if (grab?.key === key) {
+        setGrab(null);
+        setAnnouncement(`Dropped ${getLabel(item)} at ${position(index)}`);
+      } else {
+        setGrab({ key, originalIndex: index });
+        setAnnouncement(`Grabbed ${getLabel(item)}, ${position(index)}. Arrow keys move it, Space drops it, Escape cancels.`);
+      }
+      return;
+    }
+
+    if (grab?.key !== key) return;
+
+    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      const to = e.key === 'ArrowUp' ? index - 1 : index + 1;
+      if (to < 0 || to >= items.length) return;
+      onReorder(moveItem(items, index, to));
+      setAnnouncement(`${getLabel(item)} moved to ${position(to)}`);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onReorder(moveItem(items, index, grab.originalIndex));
+      setGrab(null);
+      setAnnouncement(`Reorder cancelled, ${getLabel(item)} is back at ${position(grab.originalIndex)}`);
+    }
+  };
+
+  // A drop indicator next to the item's own slot would be a no-op move - hide it
+  const dragFrom = drag ? indexOf(drag.key) : -1;
+  const showIndicator = drag !== null && drag.dropIndex !== dragFrom && drag.dropIndex !== dragFrom + 1;
+
+  return (
+    <>
+      <ul className={className} aria-label={label}>
+        {items.map((item, index) => {
+          const key = getKey(item);
+          const active = drag?.key === key || grab?.key === key;
+          let dropEdge: 'before' | 'after' | undefined;
+          if (showIndicator && drag.dropIndex === index) dropEdge = 'before';
+          if (showIndicator && drag.dropIndex === items.length && index === items.length - 1) dropEdge = 'after';
+
+          const handle = (
+            <button
+              type="button"
+              className="sortable-handle"
+              aria-label={`Reorder ${getLabel(item)}`}
+              aria-pressed={grab?.key === key}
+              onKeyDown={(e) => handleKeyDown(e, item)}
+              ref={(node) => {
+                if (node) {
+                  handleRefs.current.set(key, node);
+                } else {
+                  handleRefs.current.delete(key);
+                }
+              }}
+              // Tabbing elsewhere drops the item; relatedTarget is null when the move itself stole focus
+              onBlur={(e) => e.relatedTarget !== null && grab?.key === key && setGrab(null)}
+              onPointerDown={(e) => {
+                if (e.button !== 0) return;
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setDrag({ key, dropIndex: index });
+              }}
+              onPointerMove={(e) => {
+                if (drag?.key !== key) return;
+                const dropIndex = dropIndexAt(e.clientY);
+                if (dropIndex !== drag.dropIndex) setDrag({ key, dropIndex });
+              }}
+              onPointerUp={finishDrag}
+              onPointerCancel={() => setDrag(null)}
+            >
+              ⠿
+            </button>
+          );
+
+          return (
+            <li
+              key={key}
+              ref={(node) => {
+                if (node) {
+                  rowRefs.current.set(key, node);
+                } else {
+                  rowRefs.current.delete(key);
+                }
+              }}
+              className="sortable-item"
+              data-active={active || undefined}
+              data-drop={dropEdge}
+            >
+              {renderItem(item, { handle, active })}
+            </li>
+          );
+        })}
+      </ul>
+      {/* Screen readers hear every grab, move and drop */}
+      <div className="sr-only" aria-live="assertive" aria-atomic="true">
+        {announcement}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * File: src/components/TeamSignupForm.tsx
+ *
+ * Second useForm demo - a nested group (the owner), a list of member rows,
+ * an async "is this name taken?" check and a cross-field rule
+ * Nothing is sent anywhere; a valid submit just shows the values it produced
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from '../hooks/useForm';
+import type { ValidateOn } from '../hooks/useForm';
+import { EMAIL_PATTERN } from '../lib/contact';
+import { field, group, list } from '../lib/form';
+import type { FormErrors, InferValues } from '../lib/form';
+import { tint } from '../lib/tokens';
+import Button from './Button';
+import FieldFeedback from './FieldFeedback';
+
+const TAKEN_TEAM_NAMES = ['admin', 'react', 'nextjs', 'tutorial'];
+
+// Pretend server lookup - slow on purpose, so the "Checking..." state is visible
+function checkTeamName(name: string, signal: AbortSignal): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      resolve(TAKEN_TEAM_NAMES.includes(name.toLowerCase()) ? `"${name}" is already taken` : undefined);
+    }, 800);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+const person = {
+  name: field.text({ label: 'Name', required: true, maxLength: 60 }),
+  email: field.text({ label: 'Email', required: true, pattern: EMAIL_PATTERN, patternMessage: 'Valid email required' }),
+};
+
+const teamSchema = {
+  teamName: field.text({
+    label: 'Team name',
+    required: true,
+    minLength: 3,
+    maxLength: 30,
+    pattern: /^[a-z0-9-]+$/i,
+    patternMessage: 'Letters, numbers and dashes only',
+    validateAsync: checkTeamName,
+  }),
+  owner: group(person),
+  members: list(group(person), { minItems: 1, maxItems: 5 }),
+  acceptTerms: field.checkbox({ required: 'Please accept the terms' }),
+};
+
+// 🐍 Python: like a pydantic model's fields - the type is read straight off the schema
+type TeamSignup = InferValues<typeof teamSchema>;
+
+// Cross-field rule: every email appears once, the owner's included
+function uniqueEmails(values: TeamSignup): FormErrors {
+  const errors: FormErrors = {};
+  const seen = new Set([values.owner.email.trim().toLowerCase()]);
+  values.members.forEach((member, index) => {
+    const email = member.email.trim().toLowerCase();
+    if (email && seen.has(email)) errors[`members.${index}.email`] = 'This email is already on the team';
+    seen.add(email);
+  });
+  return errors;
+}
+
+const VALIDATE_MODES: ValidateOn[] = ['blur', 'change', 'submit'];
+
+export default function TeamSignupForm() {
+  const [validateOn, setValidateOn] = useState<ValidateOn>('blur');
+  const [submitted, setSubmitted] = useState<TeamSignup | null>(null);
+  const form = useForm({ schema: teamSchema, validateOn, validate: uniqueEmails });
+  const members = form.items('members');
+  const teamName = form.register('teamName');
+
+  const handleSubmit = form.handleSubmit(values => {
+    setSubmitted(values);
+  });
+
+  const handleReset = () => {
+    form.reset();
+    setSubmitted(null);
+  };
+
+  return (
+    <div className="widget">
+      <h3>
+        <span className="widget-icon">👥</span>
+        Team Signup
+        <span className="pattern-badge">useForm</span>
+      </h3>
+      <p className="text-sm mb-4" style={{ color: 'var(--muted-foreground)' }}>
+        Nested and array fields, an async name check and a cross-field rule - all from one schema.
+        Try the team name &quot;react&quot;, or the same email twice.
+      </p>
+
+      <fieldset className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <legend className="sr-only">When to validate</legend>
+        <span style={{ color: 'var(--muted-foreground)' }}>Validate on:</span>
+        {VALIDATE_MODES.map(mode => (
+          <label key={mode} className="flex items-center gap-1">
+            <input type="radio" name="team-validate-on" checked={validateOn === mode} onChange={() => setValidateOn(mode)} />
+            {mode}
+          </label>
+        ))}
+      </fieldset>
+
+      <form onSubmit={handleSubmit} noValidate>
+        <div className="mb-4">
+          <label htmlFor={teamName.id} className="text-sm font-semibold block mb-1">Team name</label>
+          <input {...teamName} className="input" placeholder="my-team" />
+          <FieldFeedback state={form.fieldState('teamName')} />
+        </div>
+
+        <fieldset className="mb-4 p-3 rounded-lg" style={{ border: '1px solid var(--border)' }}>
+          <legend className="text-sm font-semibold px-1">Owner</legend>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <input {...form.register('owner.name')} className="input" placeholder="Name" aria-label="Owner name" />
+              <FieldFeedback state={form.fieldState('owner.name')} />
+            </div>
+            <div>
+              <input {...form.register('owner.email')} type="email" className="input" placeholder="Email" aria-label="Owner email" />
+              <FieldFeedback state={form.fieldState('owner.email')} />
+            </div>
+          </div>
+        </fieldset>
+
+        <fieldset className="mb-4 p-3 rounded-lg" style={{ border: '1px solid var(--border)' }}>
+          <legend className="text-sm font-semibold px-1">Members ({members.length}/{teamSchema.members.maxItems})</legend>
+          {/* Rows are keyed by id, not index - removing one keeps the others' focus and DOM */}
+          {members.map(({ key, index }) => (
+            <div key={key} className="grid grid-cols-[1fr_1fr_auto] gap-2 mb-2 items-start">
+              <div>
+                <input
+                  {...form.register(`members.${index}.name`)}
+                  className="input"
+                  placeholder="Name"
+                  aria-label={`Member ${index + 1} name`}
+                />
+                <FieldFeedback state={form.fieldState(`members.${index}.name`)} />
+              </div>
+              <div>
+                <input
+                  {...form.register(`members.${index}.email`)}
+                  type="email"
+                  className="input"
+                  placeholder="Email"
+                  aria-label={`Member ${index + 1} email`}
+                />
+                <FieldFeedback state={form.fieldState(`members.${index}.email`)} />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => form.remove('members', index)}
+                aria-label={`Remove member ${index + 1}`}
+              >
+                ✕
+              </Button>
+            </div>
+          ))}
+          <FieldFeedback state={form.fieldState('members')} />
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-2"
+            onClick={() => form.append('members')}
+            disabled={members.length >= (teamSchema.members.maxItems ?? Infinity)}
+            leadingIcon="➕"
+          >
+            Add member
+          </Button>
+        </fieldset>
+
+        <div className="mb-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input {...form.register('acceptTerms')} type="checkbox" />
+            I accept the (imaginary) terms
+          </label>
+          <FieldFeedback state={form.fieldState('acceptTerms')} />
+        </div>
+
+        {form.submitError && (
+          <div className="error mb-4" role="alert">
+            ⚠️ {form.submitError}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="submit" loading={form.isSubmitting}>
+            {form.isSubmitting ? 'Checking...' : 'Create team'}
+          </Button>
+          <Button variant="secondary" onClick={handleReset} disabled={!form.isDirty && !submitted}>
+            Reset
+          </Button>
+          <span className="text-xs" style={{ color: 'var(--muted-foreground)' }}>
+            {form.isDirty ? 'Unsaved changes' : 'No changes'} · {form.submitCount} submit attempt{form.submitCount === 1 ? '' : 's'}
+          </span>
+        </div>
+      </form>
+
+      {submitted && (
+        <div className="mt-4 p-3 rounded-lg" style={{ background: tint('success', 10) }} role="status">
+          <div className="text-sm font-semibold mb-2">✅ Valid - this is what the form produced:</div>
+          <pre className="text-xs overflow-x-auto">{JSON.stringify(submitted, null, 2)}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * File: src/components/ThemeEditor.tsx
+ *
+ * Theme Editor widget - live design-token editing
+ * Edits go through ThemeContext, so every widget on the page recolors instantly
+ */
+
+'use client';
+
+import React, { useCallback, useRef, useState } from 'react';
+import { useTheme } from '../contexts/ThemeContext';
+import { contrastLevel, contrastRatio } from '../lib/color';
+import { downloadJson } from '../lib/download';
+import { isThemeTokenEdits, themeTokens, tint, token, tokenNames } from '../lib/tokens';
+import type { ThemeTokens, TokenName } from '../lib/tokens';
+
+// Text/background pairs that have to stay readable
+const CONTRAST_PAIRS: Array<[TokenName, TokenName]> = [
+  ['foreground', 'background'],
+  ['cardForeground', 'card'],
+  ['primaryForeground', 'primary'],
+  ['secondaryForeground', 'secondary'],
+  ['destructiveForeground', 'destructive'],
+  ['mutedForeground', 'muted'],
+  ['accentForeground', 'accent'],
+];
+
+// Shape of an exported theme file
+interface ThemeFile {
+  theme: string;
+  tokens: ThemeTokens;
+}
+
+export default function ThemeEditor() {
+  const { resolvedTheme, tokens, tokenEdits, setToken, setTokenEdits, resetTokens } = useTheme();
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = useCallback(() => {
+    const file: ThemeFile = { theme: resolvedTheme, tokens };
+    downloadJson(`theme-${resolvedTheme}.json`, file);
+  }, [resolvedTheme, tokens]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // let the same file be picked again
+    if (!file) return;
+
+    try {
+      const data: unknown = JSON.parse(await file.text());
+      const imported = typeof data === 'object' && data !== null && 'tokens' in data ? data.tokens : data;
+      if (!isThemeTokenEdits(imported)) {
+        setImportError('Not a theme file: expected token names mapped to #rrggbb colors');
+        return;
+      }
+      // Only keep values that differ from the built-in theme
+      const base = themeTokens[resolvedTheme];
+      const edits = Object.fromEntries(
+        Object.entries(imported).filter(([name, value]) => base[name as TokenName] !== value)
+      ) as Partial<ThemeTokens>;
+      setTokenEdits(edits);
+      setImportError(null);
+    } catch {
+      setImportError('Could not read that file as JSON');
+    }
+  }, [resolvedTheme, setTokenEdits]);
+
+  const editedCount = Object.keys(tokenEdits).length;
+
+  return (
+    <div className="widget">
+      <h3>
+        <span className="widget-icon">🖌️</span>
+        Theme Editor
+        <span className="pattern-badge">Design Tokens</span>
+      </h3>
+      <p className="text-sm mb-4" style={{ color: token('mutedForeground') }}>
+        Editing <strong>{resolvedTheme}</strong> - changes apply everywhere instantly and are saved automatically
+        {editedCount > 0 && ` (${editedCount} edited)`}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-6">
+        {tokenNames.map(name => (
+          <label key={name} className="flex items-center gap-3 p-2 rounded" style={{ background: token('muted') }}>
+            <input
+              type="color"
+              value={tokens[name]}
+              onChange={(e) => setToken(name, e.target.value)}
+              aria-label={`${name} color`}
+            />
+            <span className="text-sm flex-1">{name}</span>
+            <code className="text-xs" style={{ color: token('mutedForeground') }}>{tokens[name]}</code>
+            {name in tokenEdits && <span className="text-xs" style={{ color: token('primary') }}>●</span>}
+          </label>
+        ))}
+      </div>
+
+      <h4 className="text-sm font-semibold mb-3" style={{ color: token('mutedForeground') }}>
+        ♿ WCAG Contrast
+      </h4>
+      <div className="mb-6">
+        {CONTRAST_PAIRS.map(([text, background]) => {
+          const ratio = contrastRatio(tokens[text], tokens[background]);
+          const level = contrastLevel(ratio);
+          const passes = level === 'AA' || level === 'AAA';
+          return (
+            <div key={text} className="flex items-center gap-3 mb-2">
+              <span
+                className="px-3 py-1 rounded text-sm"
+                style={{ background: tokens[background], color: tokens[text], border: `1px solid ${token('border')}` }}
+              >
+                Aa
+              </span>
+              <span className="text-sm flex-1">{text} on {background}</span>
+              <span className="text-sm font-mono">{ratio.toFixed(2)}:1</span>
+              <span
+                className="text-xs px-2 py-1 rounded-full font-medium"
+                style={{
+                  background: tint(passes ? 'success' : 'destructive', 10),
+                  color: token(passes ? 'success' : 'destructive'),
+                }}
+              >
+                {level}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {importError && <div className="error mb-4">{importError}</div>}
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button onClick={handleExport} className="btn btn-primary">⬇️ Export JSON</button>
+        <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary">⬆️ Import JSON</button>
+        <button onClick={resetTokens} className="btn btn-secondary" disabled={editedCount === 0}>↩️ Reset</button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+/**
+ * File: src/components/TimeTools.tsx
+ *
+ * Tab panels for the Clock widget - world clock, stopwatch and countdown
+ * All three tick through useTicker and measure time from timestamps, so a
+ * hidden tab (no ticks) never loses time
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useTicker } from '../hooks/useTicker';
+import { CLOCK_ZONES_STORAGE_KEY, COUNTDOWN_STORAGE_KEY } from '../lib/storageKeys';
+import { tint, token } from '../lib/tokens';
+
+// =====================================
+// Helpers
+// =====================================
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isTimeZoneList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(zone => typeof zone === 'string' && isValidTimeZone(zone));
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+// 83456 -> "01:23.45"
+function formatDuration(ms: number): string {
+  const totalCentiseconds = Math.floor(Math.max(0, ms) / 10);
+  const minutes = Math.floor(totalCentiseconds / 6000);
+  const seconds = Math.floor(totalCentiseconds / 100) % 60;
+  const centiseconds = totalCentiseconds % 100;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(centiseconds).padStart(2, '0')}`;
+}
+
+// 125 -> "02:05"
+function formatSeconds(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+// =====================================
+// World Clock
+// =====================================
+
+const DEFAULT_ZONES = ['UTC', 'America/New_York', 'Europe/London', 'Asia/Tokyo'];
+
+export function WorldClock() {
+  const [zones, setZones] = useLocalStorage<string[]>(CLOCK_ZONES_STORAGE_KEY, DEFAULT_ZONES, {
+    validate: isTimeZoneList,
+  });
+  const [time, setTime] = useState<Date | null>(null);
+  const [newZone, setNewZone] = useState('');
+  const [zoneError, setZoneError] = useState<string | null>(null);
+
+  useTicker(() => setTime(new Date()), { alignToClock: true });
+
+  // Every zone the browser knows, for the autocomplete list
+  const knownZones = useMemo(
+    () => (typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : []),
+    []
+  );
+
+  const addZone = useCallback(() => {
+    const zone = newZone.trim();
+    if (!isValidTimeZone(zone)) {
+      setZoneError(`"${zone}" is not an IANA time zone (try Europe/Paris)`);
+      return;
+    }
+    setZones(prev => (prev.includes(zone) ? prev : [...prev, zone]));
+    setNewZone('');
+    setZoneError(null);
+  }, [newZone, setZones]);
+
+  const removeZone = useCallback((zone: string) => {
+    setZones(prev => prev.filter(item => item !== zone));
+  }, [setZones]);
+
+  return (
+    <div>
+      <div className="mb-4">
+        {zones.map(zone => (
+          <div key={zone} className="note-item flex items-center gap-3">
+            <span className="flex-1 text-sm">{zone.replace(/_/g, ' ')}</span>
+            <span className="font-mono font-bold">
+              {time ? time.toLocaleTimeString([], { timeZone: zone }) : '--:--:--'}
+            </span>
+            <button
+              onClick={() => removeZone(zone)}
+              className="btn btn-secondary"
+              aria-label={`Remove ${zone}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={newZone}
+          onChange={(e) => setNewZone(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addZone()}
+          placeholder="Add a time zone, e.g. Europe/Paris"
+          className="input flex-1"
+          list="time-zone-options"
+        />
+        <datalist id="time-zone-options">
+          {knownZones.map(zone => <option key={zone} value={zone} />)}
+        </datalist>
+        <button onClick={addZone} className="btn btn-primary">Add</button>
+      </div>
+      {zoneError && <div className="error">{zoneError}</div>}
+    </div>
+  );
+}
+
+// =====================================
+// Stopwatch
+// =====================================
+
+export function Stopwatch() {
+  // performance.now() when the current run started; null while paused
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  // Time banked by earlier runs
+  const [banked, setBanked] = useState(0);
+  const [now, setNow] = useState(0);
+  const [laps, setLaps] = useState<number[]>([]);
+
+  const running = startedAt !== null;
+  useTicker(setNow, { interval: 50, enabled: running });
+
+  const elapsed = banked + (running ? Math.max(0, now - startedAt) : 0);
+
+  const toggle = () => {
+    const current = performance.now();
+    if (running) {
+      setBanked(prev => prev + (current - startedAt));
+      setStartedAt(null);
+    } else {
+      setStartedAt(current);
+      setNow(current);
+    }
+  };
+
+  const lap = () => {
+    setLaps(prev => [...prev, banked + (performance.now() - (startedAt ?? 0))]);
+  };
+
+  const reset = () => {
+    setStartedAt(null);
+    setBanked(0);
+    setLaps([]);
+  };
+
+  return (
+    <div className="text-center">
+      <div className="text-3xl font-bold font-mono my-4">{formatDuration(elapsed)}</div>
+      <div className="flex gap-2 justify-center mb-4">
+        <button onClick={toggle} className={`btn ${running ? 'btn-secondary' : 'btn-primary'}`}>
+          {running ? '⏸ Pause' : '▶️ Start'}
+        </button>
+        <button onClick={lap} className="btn btn-secondary" disabled={!running}>🏁 Lap</button>
+        <button onClick={reset} className="btn btn-secondary" disabled={elapsed === 0}>Reset</button>
+      </div>
+
+      {laps.length > 0 && (
+        <div className="max-h-48 overflow-y-auto text-left">
+          {/* Newest lap first; laps are append-only, so the lap number is a stable key */}
+          {laps.map((total, index) => ({ number: index + 1, total, split: total - (laps[index - 1] ?? 0) }))
+            .reverse()
+            .map(({ number, total, split }) => (
+              <div key={number} className="note-item flex justify-between font-mono text-sm">
+                <span>Lap {number}</span>
+                <span>{formatDuration(split)}</span>
+                <span style={{ color: token('mutedForeground') }}>{formatDuration(total)}</span>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// =====================================
+// Countdown
+// =====================================
+
+function notifyCountdownFinished() {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+    new Notification('⏰ Countdown finished', { body: "Time's up!" });
+  }
+}
+
+export function Countdown() {
+  const [durationSeconds, setDurationSeconds] = useLocalStorage<number>(COUNTDOWN_STORAGE_KEY, 300, {
+    validate: isPositiveInteger,
+  });
+  // performance.now() the countdown hits zero; null while paused/idle
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  // Milliseconds left when paused (null = not started yet)
+  const [pausedRemaining, setPausedRemaining] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
+  const [finished, setFinished] = useState(false);
+
+  const running = endsAt !== null;
+  useTicker(setNow, { interval: 250, enabled: running });
+
+  const remainingMs = running
+    ? Math.max(0, endsAt - now)
+    : pausedRemaining ?? durationSeconds * 1000;
+
+  // Completion gets its own timer: display ticks stop in a hidden tab, but
+  // the notification should still fire on time
+  useEffect(() => {
+    if (endsAt === null) return;
+    const timer = setTimeout(() => {
+      setEndsAt(null);
+      setPausedRemaining(null);
+      setFinished(true);
+      notifyCountdownFinished();
+    }, Math.max(0, endsAt - performance.now()));
+    return () => clearTimeout(timer);
+  }, [endsAt]);
+
+  const start = () => {
+    // Ask once, on a click - browsers ignore permission prompts without a user gesture
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      void Notification.requestPermission();
+    }
+    const current = performance.now();
+    setNow(current);
+    setEndsAt(current + (pausedRemaining ?? durationSeconds * 1000));
+    setFinished(false);
+  };
+
+  const pause = () => {
+    if (endsAt === null) return;
+    // Read the clock now - `now` can be up to a tick (250ms) stale, and that time would be handed back
+    setPausedRemaining(Math.max(0, endsAt - performance.now()));
+    setEndsAt(null);
+  };
+
+  const reset = () => {
+    setEndsAt(null);
+    setPausedRemaining(null);
+    setFinished(false);
+  };
+
+  // Number inputs still accept "1.5" - whole seconds only, or the stored value stops validating
+  const setMinutes = (minutes: number) => setDurationSeconds(prev => Math.max(1, Math.floor(minutes) * 60 + (prev % 60)));
+  const setSeconds = (seconds: number) => setDurationSeconds(prev => Math.max(1, Math.floor(prev / 60) * 60 + Math.floor(seconds)));
+
+  const idle = !running && pausedRemaining === null;
+
+  return (
+    <div className="text-center">
+      {finished && (
+        <div className="rounded mb-4 p-2 font-bold" role="alert" style={{ background: tint('success', 10), color: token('success') }}>
+          ⏰ Time&apos;s up!
+        </div>
+      )}
+
+      <div className="text-3xl font-bold font-mono my-4">{formatSeconds(Math.ceil(remainingMs / 1000))}</div>
+
+      {idle && (
+        <div className="flex gap-2 justify-center items-center mb-4 text-sm">
+          <label className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              max={999}
+              value={Math.floor(durationSeconds / 60)}
+              onChange={(e) => setMinutes(Math.max(0, Number(e.target.value) || 0))}
+              className="input"
+              style={{ width: '5rem' }}
+            />
+            min
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              max={59}
+              value={durationSeconds % 60}
+              onChange={(e) => setSeconds(Math.min(59, Math.max(0, Number(e.target.value) || 0)))}
+              className="input"
+              style={{ width: '5rem' }}
+            />
+            sec
+          </label>
+        </div>
+      )}
+
+      <div className="flex gap-2 justify-center">
+        {running ? (
+          <button onClick={pause} className="btn btn-secondary">⏸ Pause</button>
+        ) : (
+          <button onClick={start} className="btn btn-primary">▶️ {idle ? 'Start' : 'Resume'}</button>
+        )}
+        <button onClick={reset} className="btn btn-secondary" disabled={idle && !finished}>Reset</button>
+      </div>
+    </div>
+  );
+}
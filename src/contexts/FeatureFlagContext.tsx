@@ -0,0 +1,130 @@
+/**
+ * File: src/contexts/FeatureFlagContext.tsx
+ *
+ * Feature Flag Context Provider - typed flags for conditional rendering
+ * Combines defaults, percentage rollouts, saved overrides and ?flags= URL overrides
+ */
+
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo } from 'react';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useQueryParam } from '../hooks/useQueryParam';
+import {
+  FLAG_OVERRIDES_STORAGE_KEY,
+  FLAG_QUERY_PARAM,
+  FLAG_USER_ID_STORAGE_KEY,
+  evaluateFlag,
+  flagNames,
+  isFlagOverrides,
+  parseFlagQuery,
+} from '../lib/flags';
+import type { FlagName, FlagOverrides, FlagState } from '../lib/flags';
+import { createId } from '../lib/id';
+
+export type { FlagName, FlagSource, FlagState } from '../lib/flags';
+
+export interface FeatureFlagContextType {
+  flags: Record<FlagName, FlagState>;
+  /** Anonymous id that seeds rollouts; null until loaded from storage */
+  userId: string | null;
+  /** Flags forced by the current URL - these win over everything else */
+  urlOverrides: FlagOverrides;
+  /** Flags forced from the panel and saved in this browser - a URL override can hide them */
+  overrides: FlagOverrides;
+  /** Force a flag on/off, or pass null to go back to its rollout/default */
+  setOverride: (name: FlagName, enabled: boolean | null) => void;
+  clearOverrides: () => void;
+  /** Pretend to be a new visitor - rollouts are re-rolled */
+  resetUserId: () => void;
+}
+
+export const FeatureFlagContext = createContext<FeatureFlagContextType | undefined>(undefined);
+
+// Custom hook to use the flag context with error checking
+export function useFeatureFlags(): FeatureFlagContextType {
+  const context = useContext(FeatureFlagContext);
+  if (!context) {
+    throw new Error('useFeatureFlags must be used within FeatureFlagProvider');
+  }
+  return context;
+}
+
+/** Is this flag on for the current user? */
+export function useFlag(name: FlagName): boolean {
+  return useFeatureFlags().flags[name].enabled;
+}
+
+interface FeatureProps {
+  name: FlagName;
+  children: React.ReactNode;
+  /** Rendered instead while the flag is off */
+  fallback?: React.ReactNode;
+}
+
+/** Render children only while a flag is on */
+export function Feature({ name, children, fallback = null }: FeatureProps) {
+  return <>{useFlag(name) ? children : fallback}</>;
+}
+
+function isUserId(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+export function FeatureFlagProvider({ children }: { children: React.ReactNode }) {
+  const [storedUserId, setUserId, { status: userIdStatus }] = useLocalStorage<string>(FLAG_USER_ID_STORAGE_KEY, '', {
+    validate: isUserId,
+    syncExternalStore: true,
+  });
+  const [overrides, setOverrides] = useLocalStorage<FlagOverrides>(FLAG_OVERRIDES_STORAGE_KEY, {}, {
+    validate: isFlagOverrides,
+    syncExternalStore: true,
+  });
+  // Read live, so back/forward navigation re-evaluates flags
+  const [flagQuery] = useQueryParam(FLAG_QUERY_PARAM, '');
+
+  // First visit: mint the id once storage is readable, then keep it forever
+  useEffect(() => {
+    if (userIdStatus === 'ready' && storedUserId === '') {
+      setUserId(createId());
+    }
+  }, [userIdStatus, storedUserId, setUserId]);
+
+  const userId = storedUserId === '' ? null : storedUserId;
+  const urlOverrides = useMemo(() => parseFlagQuery(flagQuery), [flagQuery]);
+
+  const flags = useMemo(() => Object.fromEntries(
+    flagNames.map(name => [name, evaluateFlag(name, { userId, urlOverrides, overrides })])
+  ) as Record<FlagName, FlagState>, [userId, urlOverrides, overrides]);
+
+  const setOverride = useCallback((name: FlagName, enabled: boolean | null) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      if (enabled === null) {
+        delete next[name];
+      } else {
+        next[name] = enabled;
+      }
+      return next;
+    });
+  }, [setOverrides]);
+
+  const clearOverrides = useCallback(() => setOverrides({}), [setOverrides]);
+  const resetUserId = useCallback(() => setUserId(createId()), [setUserId]);
+
+  const value = useMemo<FeatureFlagContextType>(() => ({
+    flags,
+    userId,
+    urlOverrides,
+    overrides,
+    setOverride,
+    clearOverrides,
+    resetUserId,
+  }), [flags, userId, urlOverrides, overrides, setOverride, clearOverrides, resetUserId]);
+
+  return (
+    <FeatureFlagContext.Provider value={value}>
+      {children}
+    </FeatureFlagContext.Provider>
+  );
+}
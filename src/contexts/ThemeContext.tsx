@@ -1,18 +1,37 @@
 /**
  * File: src/contexts/ThemeContext.tsx
- * 
+ *
  * Theme Context Provider - Global theme state management
  * Provides theme switching functionality across the entire application
  */
 
 'use client';
 
-import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import React, { createContext, useContext, useCallback, useEffect, useMemo } from 'react';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useMediaQuery } from '../hooks/useMediaQuery';
+import { THEME_ATTRIBUTE, THEME_STORAGE_KEY, THEME_TOKENS_STORAGE_KEY, baseOf, isTheme, themes } from '../lib/theme';
+import type { ResolvedTheme, Theme, ThemeOption } from '../lib/theme';
+import { cssVariable, isTokenOverrides, themeTokens, tokenNames } from '../lib/tokens';
+import type { ThemeTokens, TokenName, TokenOverrides } from '../lib/tokens';
+
+export type { CustomThemeName, ResolvedTheme, Theme, ThemeOption } from '../lib/theme';
 
 // Theme context type definition
 export interface ThemeContextType {
-  theme: string;
+  theme: Theme;
+  resolvedTheme: ResolvedTheme;
+  themes: ThemeOption[];
+  setTheme: (theme: Theme) => void;
   toggleTheme: () => void;
+  /** Token values on screen: the resolved theme plus any edits */
+  tokens: ThemeTokens;
+  /** Only the tokens the user changed for the resolved theme */
+  tokenEdits: Partial<ThemeTokens>;
+  setToken: (name: TokenName, value: string) => void;
+  /** Replace every edit for the resolved theme (e.g. from an imported JSON file) */
+  setTokenEdits: (edits: Partial<ThemeTokens>) => void;
+  resetTokens: () => void;
 }
 
 // Create the theme context
@@ -29,20 +48,73 @@ export function useTheme(): ThemeContextType {
 
 // Theme provider component
 export function ThemeProvider({ children }: { children: React.ReactNode }) {
-  const [theme, setTheme] = useState('light');
-  
+  // Persisted choice - survives reloads and syncs across tabs
+  const [theme, setTheme, { status }] = useLocalStorage<Theme>(THEME_STORAGE_KEY, 'system', {
+    validate: isTheme,
+    syncExternalStore: true,
+  });
+  const [tokenOverrides, setTokenOverrides] = useLocalStorage<TokenOverrides>(THEME_TOKENS_STORAGE_KEY, {}, {
+    validate: isTokenOverrides,
+    syncExternalStore: true,
+  });
+  // Follows the OS setting live while 'system' is selected
+  const prefersDark = useMediaQuery('(prefers-color-scheme: dark)');
+
+  const resolvedTheme: ResolvedTheme = theme === 'system' ? (prefersDark ? 'dark' : 'light') : theme;
+
   const toggleTheme = useCallback(() => {
-    setTheme(prev => prev === 'light' ? 'dark' : 'light');
-  }, []);
+    setTheme(baseOf(resolvedTheme) === 'light' ? 'dark' : 'light');
+  }, [resolvedTheme, setTheme]);
+
+  const tokenEdits = useMemo(() => tokenOverrides[resolvedTheme] ?? {}, [tokenOverrides, resolvedTheme]);
+  const tokens = useMemo(() => ({ ...themeTokens[resolvedTheme], ...tokenEdits }), [resolvedTheme, tokenEdits]);
+
+  const setTokenEdits = useCallback((edits: Partial<ThemeTokens>) => {
+    setTokenOverrides(prev => ({ ...prev, [resolvedTheme]: edits }));
+  }, [resolvedTheme, setTokenOverrides]);
+
+  const setToken = useCallback((name: TokenName, value: string) => {
+    setTokenOverrides(prev => ({ ...prev, [resolvedTheme]: { ...prev[resolvedTheme], [name]: value } }));
+  }, [resolvedTheme, setTokenOverrides]);
 
-  // Apply theme class to body element
+  const resetTokens = useCallback(() => {
+    setTokenOverrides(prev => {
+      const next = { ...prev };
+      delete next[resolvedTheme];
+      return next;
+    });
+  }, [resolvedTheme, setTokenOverrides]);
+
+  // Apply theme to <html> as a data attribute - leaves the font/antialiasing
+  // classes RootLayout puts on <body> alone. Until hydration finishes the
+  // values above are server defaults, so leave the blocking script's choice in place
+  useEffect(() => {
+    if (status !== 'ready') return;
+    document.documentElement.setAttribute(THEME_ATTRIBUTE, resolvedTheme);
+  }, [resolvedTheme, status]);
+
+  // Edited tokens go inline on <html>, so they beat the [data-theme] stylesheet
   useEffect(() => {
-    document.body.className = theme;
-  }, [theme]);
+    if (status !== 'ready') return;
+    const root = document.documentElement;
+    tokenNames.forEach(name => {
+      const value = tokenEdits[name];
+      if (value) {
+        root.style.setProperty(cssVariable(name), value);
+      } else {
+        root.style.removeProperty(cssVariable(name));
+      }
+    });
+  }, [tokenEdits, status]);
+
+  const value = useMemo(
+    () => ({ theme, resolvedTheme, themes, setTheme, toggleTheme, tokens, tokenEdits, setToken, setTokenEdits, resetTokens }),
+    [theme, resolvedTheme, setTheme, toggleTheme, tokens, tokenEdits, setToken, setTokenEdits, resetTokens]
+  );
 
   return (
-    <ThemeContext.Provider value={{ theme, toggleTheme }}>
+    <ThemeContext.Provider value={value}>
       {children}
     </ThemeContext.Provider>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,155 @@
+/**
+ * File: src/contexts/ToastContext.tsx
+ *
+ * Toast Context Provider - app-wide notifications, optionally with an action (e.g. "Undo")
+ * One stacked live region for the whole app, so screen readers hear every toast
+ */
+
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { createId } from '../lib/id';
+import Button from '../components/Button';
+
+export type ToastVariant = 'info' | 'success' | 'error';
+
+export interface ToastAction {
+  label: string;
+  /** The toast closes itself after running this */
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  message: string;
+  variant?: ToastVariant;
+  action?: ToastAction;
+  /** How long it stays up, in ms (defaults to 5000) - pass Infinity to keep it until dismissed */
+  duration?: number;
+}
+
+interface Toast extends ToastOptions {
+  id: string;
+  variant: ToastVariant;
+  duration: number;
+}
+
+export interface ToastContextType {
+  /** Show a toast - returns its id, for dismiss() */
+  toast: (options: ToastOptions) => string;
+  dismiss: (id: string) => void;
+}
+
+const DEFAULT_DURATION = 5000;
+/** For toasts with an Undo action - a little longer, so there's time to reach the button */
+export const UNDO_DURATION = 8000;
+// Older toasts make way once the stack is this tall - except ones with an action (see makeRoom)
+const MAX_TOASTS = 4;
+
+export const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+// Custom hook to use the toast context with error checking
+export function useToast(): ToastContextType {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast must be used within ToastProvider');
+  }
+  return context;
+}
+
+// ❌ BAD: .slice(-MAX_TOASTS) - a burst of toasts silently takes away a pending Undo
+// ✅ GOOD: Drop the oldest plain toasts; ones with an action stay until they expire or are dismissed
+function makeRoom(toasts: Toast[]): Toast[] {
+  let excess = toasts.length - MAX_TOASTS;
+  return toasts.filter((toast, index) => {
+    // The newest one always shows - it's the reason we're making room
+    if (excess <= 0 || toast.action || index === toasts.length - 1) return true;
+    excess--;
+    return false;
+  });
+}
+
+interface ToastItemProps {
+  toast: Toast;
+  onDismiss: (id: string) => void;
+}
+
+function ToastItem({ toast, onDismiss }: ToastItemProps) {
+  // Hovering or focusing a toast stops its clock - nobody should have to race an Undo button
+  const [paused, setPaused] = useState(false);
+  const remaining = useRef(toast.duration);
+
+  useEffect(() => {
+    if (paused || !Number.isFinite(remaining.current)) return;
+    const startedAt = performance.now();
+    const timer = setTimeout(() => onDismiss(toast.id), remaining.current);
+    return () => {
+      clearTimeout(timer);
+      remaining.current -= performance.now() - startedAt;
+    };
+  }, [paused, toast.id, onDismiss]);
+
+  return (
+    <li
+      className={`toast toast-${toast.variant}`}
+      // The region is polite; errors interrupt instead of waiting their turn
+      role={toast.variant === 'error' ? 'alert' : undefined}
+      aria-atomic="true"
+      onMouseEnter={() => setPaused(true)}
+      onMouseLeave={() => setPaused(false)}
+      onFocus={() => setPaused(true)}
+      onBlur={e => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setPaused(false);
+      }}
+    >
+      <span className="flex-1">{toast.message}</span>
+      {toast.action && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            toast.action?.onClick();
+            onDismiss(toast.id);
+          }}
+        >
+          {toast.action.label}
+        </Button>
+      )}
+      <Button variant="ghost" size="icon" onClick={() => onDismiss(toast.id)} aria-label="Dismiss notification">
+        ✕
+      </Button>
+    </li>
+  );
+}
+
+export function ToastProvider({ children }: { children: React.ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismiss = useCallback((id: string) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const toast = useCallback((options: ToastOptions) => {
+    const id = createId();
+    setToasts(prev => makeRoom([
+      ...prev,
+      { ...options, id, variant: options.variant ?? 'info', duration: options.duration ?? DEFAULT_DURATION },
+    ]));
+    return id;
+  }, []);
+
+  const value = useMemo<ToastContextType>(() => ({ toast, dismiss }), [toast, dismiss]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      {/* The live region is always in the DOM - screen readers ignore regions that appear along with their text */}
+      <section aria-label="Notifications">
+        <ol className="toast-region" aria-live="polite">
+          {toasts.map(item => (
+            <ToastItem key={item.id} toast={item} onDismiss={dismiss} />
+          ))}
+        </ol>
+      </section>
+    </ToastContext.Provider>
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * File: src/hooks/useAsync.ts
+ *
+ * Custom hook for running async work from a component
+ * Cancels stale requests with AbortController, retries failures with
+ * exponential backoff + jitter, and reports progress as one status union
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// 🐍 Python: Like a tagged union - check `status` and TypeScript knows which fields exist
+export type AsyncState<T, E = Error> =
+  | { status: 'idle' }
+  | { status: 'loading'; attempt: number }
+  | { status: 'success'; data: T; attempt: number; elapsedMs: number }
+  | {
+      status: 'error';
+      error: E;
+      attempt: number;
+      /** performance.now() timestamp of the next automatic retry, or null when giving up */
+      nextRetryAt: number | null;
+    };
+
+export interface AsyncOptions {
+  /** Set to false to stay idle, e.g. until there's something to load */
+  enabled?: boolean;
+  /** Automatic retries after the first failure (defaults to 3) */
+  retries?: number;
+  /** Delay before the first retry; doubles every attempt (defaults to 1000ms) */
+  retryDelay?: number;
+  /** Upper bound for any single delay (defaults to 10000ms) */
+  maxRetryDelay?: number;
+  /** Return false for failures that won't fix themselves, e.g. a 404 */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+export type UseAsyncResult<T, E> = AsyncState<T, E> & {
+  /** Start over from attempt 1, cancelling anything in flight */
+  reload: () => void;
+};
+
+// 1s, 2s, 4s... capped, then randomized to 50-100% so many clients don't retry in lockstep
+function backoffDelay(attempt: number, base: number, max: number): number {
+  const exponential = Math.min(max, base * 2 ** (attempt - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Custom hook to run an async function and track its result
+ * @param fn - does the work; must honour the AbortSignal. Memoize it with
+ *   useCallback - a new function means new inputs, so it re-runs
+ * @param options - enabled flag and retry policy
+ * @returns the current AsyncState plus reload()
+ */
+export function useAsync<T, E = Error>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  { enabled = true, retries = 3, retryDelay = 1000, maxRetryDelay = 10_000, shouldRetry }: AsyncOptions = {}
+): UseAsyncResult<T, E> {
+  const [state, setState] = useState<AsyncState<T, E>>(
+    enabled ? { status: 'loading', attempt: 1 } : { status: 'idle' }
+  );
+  // Bumped by reload() to re-run the effect with the same inputs
+  const [runId, setRunId] = useState(0);
+
+  // Latest predicate without restarting in-flight work every render
+  const shouldRetryRef = useRef(shouldRetry);
+  useEffect(() => {
+    shouldRetryRef.current = shouldRetry;
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      setState({ status: 'idle' });
+      return;
+    }
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const run = (attempt: number) => {
+      const startedAt = performance.now();
+      setState({ status: 'loading', attempt });
+
+      fn(controller.signal).then(
+        data => {
+          // A newer run (or unmount) owns the state now
+          if (controller.signal.aborted) return;
+          setState({ status: 'success', data, attempt, elapsedMs: Math.round(performance.now() - startedAt) });
+        },
+        (error: unknown) => {
+          if (controller.signal.aborted) return;
+          const retry = attempt <= retries && (shouldRetryRef.current?.(error, attempt) ?? true);
+          const delay = retry ? backoffDelay(attempt, retryDelay, maxRetryDelay) : null;
+          setState({
+            status: 'error',
+            error: error as E,
+            attempt,
+            nextRetryAt: delay === null ? null : performance.now() + delay,
+          });
+          if (delay !== null) {
+            retryTimer = setTimeout(() => run(attempt + 1), delay);
+          }
+        }
+      );
+    };
+
+    run(1);
+
+    // 🐍 Python: Like __exit__ - cancels the request and any pending retry
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [fn, enabled, runId, retries, retryDelay, maxRetryDelay]);
+
+  // Stable, so it's safe in a consumer's effect or useCallback dependencies
+  const reload = useCallback(() => setRunId(prev => prev + 1), []);
+
+  return { ...state, reload };
+}
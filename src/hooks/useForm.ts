@@ -0,0 +1,388 @@
+/**
+ * File: src/hooks/useForm.ts
+ *
+ * Custom hook for schema-driven forms (schemas live in lib/form.ts)
+ * Tracks values, touched and dirty fields, runs sync + async validation on
+ * blur, change or submit, and wires errors up for screen readers
+ */
+
+import { useCallback, useEffect, useId, useRef, useState } from 'react';
+import type React from 'react';
+import { createId } from '../lib/id';
+import {
+  asyncCheckFor,
+  defaultValue,
+  defaultValues,
+  getAt,
+  joinPath,
+  nodeAt,
+  setAt,
+  validateNode,
+  validateValues,
+  walkNode,
+  walkSchema,
+} from '../lib/form';
+import type { FieldPath, FormErrors, FormSchema, InferValues, SchemaNode } from '../lib/form';
+
+export type ValidateOn = 'blur' | 'change' | 'submit';
+
+export interface UseFormOptions<S extends FormSchema> {
+  /** Define it once at module level - a new object every render would reset nothing, but recompute everything */
+  schema: S;
+  /** Starting values (defaults come from the schema) */
+  initialValues?: InferValues<S>;
+  /** Errors to show straight away, e.g. after a failed submit rendered by the server */
+  initialErrors?: FormErrors;
+  /** When a field checks itself (defaults to 'blur'). A field already showing an error re-checks as you type */
+  validateOn?: ValidateOn;
+  /** Rules that span fields, e.g. "no duplicate emails" - return errors keyed by path */
+  validate?: (values: InferValues<S>) => FormErrors;
+}
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+/** Spread onto an input: <input {...form.register('email')} /> */
+export interface RegisteredField {
+  id: string;
+  name: string;
+  value?: string;
+  checked?: boolean;
+  ref: (element: FieldElement | null) => void;
+  onChange: (event: React.ChangeEvent<FieldElement>) => void;
+  onBlur: () => void;
+  'aria-invalid': true | undefined;
+  'aria-describedby': string | undefined;
+}
+
+export interface FieldState {
+  error: string | undefined;
+  /** Give this id to the element showing `error` - register() points aria-describedby at it */
+  errorId: string;
+  touched: boolean;
+  /** Differs from the value the form started (or was last reset) with */
+  dirty: boolean;
+  /** An async validator is still running */
+  validating: boolean;
+}
+
+/** One row of a list field - render with `key`, register fields under `path` */
+export interface ListItem {
+  key: string;
+  index: number;
+  path: string;
+}
+
+// Returns `record` itself when nothing changes, so React can skip the re-render
+function withEntry<T>(record: Partial<Record<string, T>>, key: string, value: T | undefined): Partial<Record<string, T>> {
+  if (record[key] === value) return record;
+  const next = { ...record };
+  if (value === undefined) delete next[key];
+  else next[key] = value;
+  return next;
+}
+
+// Drop the entries for row `index` of a list and shift the rows after it up by one
+// 🐍 Python: like `del rows[index]`, but for a dict keyed by 'members.2.email' paths
+function removeListIndex<T>(record: Partial<Record<string, T>>, listPath: string, index: number): Partial<Record<string, T>> {
+  const prefix = `${listPath}.`;
+  const next: Partial<Record<string, T>> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!key.startsWith(prefix)) {
+      next[key] = value;
+      continue;
+    }
+    const [head, ...rest] = key.slice(prefix.length).split('.');
+    const position = Number(head);
+    if (position === index) continue;
+    next[position > index ? [listPath, position - 1, ...rest].join('.') : key] = value;
+  }
+  return next;
+}
+
+// React keys for every list under `node`, so rows keep their DOM (and focus) when one above is removed
+function keysForLists(node: SchemaNode, value: unknown, path: string): Partial<Record<string, string[]>> {
+  const keys: Partial<Record<string, string[]>> = {};
+  walkNode(node, value, path, (listPath, child, listValue) => {
+    if (child.kind === 'list') keys[listPath] = (Array.isArray(listValue) ? listValue : []).map(() => createId());
+  });
+  return keys;
+}
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export function useForm<S extends FormSchema>({
+  schema,
+  initialValues,
+  initialErrors,
+  validateOn = 'blur',
+  validate,
+}: UseFormOptions<S>) {
+  type Values = InferValues<S>;
+  // `& string` spares TypeScript from expanding every path just to prove it's a string
+  type Path = FieldPath<Values> & string;
+
+  const formId = useId();
+  const [initial, setInitial] = useState<Values>(() => initialValues ?? defaultValues(schema));
+  const [values, setValuesState] = useState<Values>(initial);
+  const [errors, setErrorsState] = useState<FormErrors>(initialErrors ?? {});
+  const [touched, setTouched] = useState<Partial<Record<string, boolean>>>({});
+  const [validating, setValidating] = useState<Partial<Record<string, boolean>>>({});
+  const [listKeys, setListKeys] = useState(() => keysForLists({ kind: 'group', fields: schema }, initial, ''));
+  const [submitCount, setSubmitCount] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Handlers read the latest values from here - the render they were created in may be stale
+  const valuesRef = useRef(values);
+  const elements = useRef(new Map<string, FieldElement>());
+  const controllers = useRef(new Map<string, AbortController>());
+  const pendingFocus = useRef<string | null>(null);
+
+  const commitValues = useCallback((next: Values) => {
+    valuesRef.current = next;
+    setValuesState(next);
+  }, []);
+
+  // Focus waits for the render that shows the error, so screen readers announce it along with the field
+  useEffect(() => {
+    const path = pendingFocus.current;
+    if (path === null) return;
+    pendingFocus.current = null;
+    elements.current.get(path)?.focus();
+  });
+
+  // Nothing should settle into state after unmount
+  useEffect(() => {
+    const running = controllers.current;
+    return () => running.forEach(controller => controller.abort());
+  }, []);
+
+  const focusFirstInvalid = useCallback((found: FormErrors) => {
+    let first: string | null = null;
+    walkSchema(schema, valuesRef.current, path => {
+      if (first === null && found[path] && elements.current.has(path)) first = path;
+    });
+    pendingFocus.current = first;
+  }, [schema]);
+
+  const cancelCheck = useCallback((path: string) => {
+    controllers.current.get(path)?.abort();
+    controllers.current.delete(path);
+    setValidating(prev => withEntry(prev, path, undefined));
+  }, []);
+
+  /**
+   * Start an async check, replacing any still running for the same field
+   * @returns the error (undefined when valid), or null if a newer check replaced this one
+   */
+  const runCheck = useCallback((path: string, check: (signal: AbortSignal) => Promise<string | undefined>) => {
+    controllers.current.get(path)?.abort();
+    const controller = new AbortController();
+    controllers.current.set(path, controller);
+    setValidating(prev => withEntry(prev, path, true));
+
+    const settle = (error: string | undefined) => {
+      if (controller.signal.aborted) return null;
+      controllers.current.delete(path);
+      setValidating(prev => withEntry(prev, path, undefined));
+      setErrorsState(prev => withEntry(prev, path, error));
+      return error;
+    };
+    return check(controller.signal).then(settle, () => settle('Could not be checked - please try again'));
+  }, []);
+
+  // Sync rules first, then cross-field rules, and only then the slow async check
+  const checkField = useCallback((path: string, current: Values) => {
+    const node = nodeAt(schema, path);
+    if (!node || node.kind === 'group') return;
+    const value = getAt(current, path);
+    const error = validateNode(node, value) ?? validate?.(current)[path];
+    setErrorsState(prev => withEntry(prev, path, error));
+
+    const check = node.kind !== 'list' && !error ? asyncCheckFor(node, value) : undefined;
+    if (check) void runCheck(path, check);
+    else cancelCheck(path);
+  }, [schema, validate, runCheck, cancelCheck]);
+
+  const setValue = useCallback((path: Path, value: unknown, options: { validate?: boolean } = {}) => {
+    // Explicit <Values>: inferring it makes TypeScript expand Path, which can hit its depth limit
+    const next = setAt<Values>(valuesRef.current, path, value);
+    commitValues(next);
+    if (options.validate) checkField(path, next);
+  }, [commitValues, checkField]);
+
+  // Not memoized: the props depend on this render's values and errors anyway
+  const register = (path: Path): RegisteredField => {
+    const node = nodeAt(schema, path);
+    const id = `${formId}-${path}`;
+    const error = errors[path];
+    const value = getAt(values, path);
+    return {
+      id,
+      name: path,
+      ...(node?.kind === 'checkbox' ? { checked: value === true } : { value: typeof value === 'string' ? value : '' }),
+      ref: element => {
+        if (element) elements.current.set(path, element);
+        else elements.current.delete(path);
+      },
+      onChange: event => {
+        const target = event.target;
+        const next = node?.kind === 'checkbox' && target instanceof HTMLInputElement ? target.checked : target.value;
+        setValue(path, next, { validate: validateOn === 'change' || error !== undefined });
+      },
+      onBlur: () => {
+        setTouched(prev => withEntry(prev, path, true));
+        if (validateOn !== 'submit') checkField(path, valuesRef.current);
+      },
+      'aria-invalid': error ? true : undefined,
+      'aria-describedby': error ? `${id}-error` : undefined,
+    };
+  };
+
+  const fieldState = (path: Path): FieldState => ({
+    error: errors[path],
+    errorId: `${formId}-${path}-error`,
+    touched: touched[path] === true,
+    dirty: !sameValue(getAt(values, path), getAt(initial, path)),
+    validating: validating[path] === true,
+  });
+
+  const items = (path: Path): ListItem[] => {
+    const current = getAt(values, path);
+    const keys = listKeys[path] ?? [];
+    return (Array.isArray(current) ? current : []).map((_, index) => ({
+      key: keys[index] ?? `${path}.${index}`,
+      index,
+      path: joinPath(path, index),
+    }));
+  };
+
+  /** Add a row to a list - an empty one from the schema unless you pass `item` */
+  const append = useCallback((path: Path, item?: unknown) => {
+    const node = nodeAt(schema, path);
+    if (node?.kind !== 'list') return;
+    const current = getAt(valuesRef.current, path);
+    const list = Array.isArray(current) ? current : [];
+    const value = item ?? defaultValue(node.item);
+    const nextList = [...list, value];
+    commitValues(setAt(valuesRef.current, path, nextList));
+    setListKeys(prev => ({
+      ...prev,
+      ...keysForLists(node.item, value, joinPath(path, list.length)),
+      [path]: [...(prev[path] ?? []), createId()],
+    }));
+    // A "needs at least one" error clears as soon as there's a row
+    setErrorsState(prev => (prev[path] === undefined ? prev : withEntry(prev, path, validateNode(node, nextList))));
+  }, [schema, commitValues]);
+
+  const remove = useCallback((path: Path, index: number) => {
+    const node = nodeAt(schema, path);
+    if (node?.kind !== 'list') return;
+    const current = getAt(valuesRef.current, path);
+    const nextList = (Array.isArray(current) ? current : []).filter((_, position) => position !== index);
+    commitValues(setAt(valuesRef.current, path, nextList));
+
+    // Checks for the removed row and the rows below it would report to the wrong path - drop them
+    for (const key of [...controllers.current.keys()]) {
+      if (!key.startsWith(`${path}.`)) continue;
+      const position = Number(key.slice(path.length + 1).split('.')[0]);
+      if (position >= index) cancelCheck(key);
+    }
+    setErrorsState(prev => {
+      const shifted = removeListIndex(prev, path, index);
+      return shifted[path] === undefined ? shifted : withEntry(shifted, path, validateNode(node, nextList));
+    });
+    setTouched(prev => removeListIndex(prev, path, index));
+    setListKeys(prev => ({
+      ...removeListIndex(prev, path, index),
+      [path]: (prev[path] ?? []).filter((_, position) => position !== index),
+    }));
+  }, [schema, commitValues, cancelCheck]);
+
+  /** Show errors from elsewhere, e.g. the server - optionally moving focus to the first one */
+  const setErrors = useCallback((next: FormErrors, options: { focus?: boolean } = {}) => {
+    setErrorsState(next);
+    if (options.focus) focusFirstInvalid(next);
+  }, [focusFirstInvalid]);
+
+  /** Start over from `next` (the schema defaults if omitted) - dirty is measured from here on */
+  const reset = useCallback((next: Values = defaultValues(schema)) => {
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+    setInitial(next);
+    commitValues(next);
+    setErrorsState({});
+    setTouched({});
+    setValidating({});
+    setListKeys(keysForLists({ kind: 'group', fields: schema }, next, ''));
+    setSubmitCount(0);
+    setSubmitError(null);
+  }, [schema, commitValues]);
+
+  /**
+   * Wrap your submit handler: <form onSubmit={form.handleSubmit(save)}>
+   * `onValid` only runs once every sync and async rule passes; otherwise the
+   * first invalid field gets focus. If `onValid` throws, the error lands in `submitError`
+   */
+  const handleSubmit = useCallback((onValid: (values: Values) => void | Promise<void>) => async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const current = valuesRef.current;
+    setSubmitCount(count => count + 1);
+    setSubmitError(null);
+
+    // Field rules win over cross-field ones when both flag the same path
+    const found: FormErrors = { ...validate?.(current), ...validateValues(schema, current) };
+    const everyPath: Partial<Record<string, boolean>> = {};
+    const checks: Promise<[string, string | undefined | null]>[] = [];
+    walkSchema(schema, current, (path, node, value) => {
+      everyPath[path] = true; // trying to submit counts as visiting every field
+      const check = node.kind !== 'list' && !found[path] ? asyncCheckFor(node, value) : undefined;
+      if (check) checks.push(runCheck(path, check).then(error => [path, error]));
+    });
+    setTouched(everyPath);
+    setErrorsState(found);
+
+    if (Object.keys(found).length > 0) {
+      focusFirstInvalid(found);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const results = await Promise.all(checks);
+      // null = the field changed mid-check; its newer check will report instead
+      if (results.some(([, error]) => error !== undefined)) {
+        focusFirstInvalid(Object.fromEntries(results.filter((result): result is [string, string] => typeof result[1] === 'string')));
+        return;
+      }
+      await onValid(current);
+    } catch (error) {
+      // ❌ BAD: try/finally alone - the rejection escapes the onSubmit handler and nobody sees it
+      // ✅ GOOD: Keep it in form state so the form can say what happened
+      console.error('Form submit failed:', error);
+      setSubmitError(error instanceof Error && error.message ? error.message : 'Something went wrong - please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [schema, validate, runCheck, focusFirstInvalid]);
+
+  return {
+    values,
+    errors,
+    submitCount,
+    isSubmitting,
+    /** Why the last submit failed (the message `onValid` threw) - null once a new submit starts */
+    submitError,
+    isDirty: !sameValue(values, initial),
+    isValidating: Object.keys(validating).length > 0,
+    register,
+    fieldState,
+    items,
+    setValue,
+    append,
+    remove,
+    setErrors,
+    reset,
+    handleSubmit,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * File: src/hooks/useHistoryState.ts
+ *
+ * Custom hook for state with undo/redo
+ * Keeps past/present/future stacks, optionally persisted to localStorage
+ */
+
+import { useCallback, useState } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import { createMemoryStorage, localStorageAdapter } from '../lib/storage';
+
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface HistoryControls {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Forget past and future, keeping the current value */
+  clearHistory: () => void;
+}
+
+export type UseHistoryStateResult<T> = [T, (value: T | ((prev: T) => T)) => void, HistoryControls];
+
+export interface HistoryStateOptions<T> {
+  /** Max number of undo steps kept (defaults to 50) */
+  capacity?: number;
+  /** Persist value and history under this localStorage key */
+  storageKey?: string;
+  /** Type guard for persisted values */
+  validate?: (value: unknown) => value is T;
+}
+
+// 🐍 Python: Like a pure function that takes the old state and returns a new one
+function pushValue<T>(history: HistoryState<T>, next: T, capacity: number): HistoryState<T> {
+  if (Object.is(next, history.present)) return history;
+  return {
+    past: [...history.past, history.present].slice(-capacity),
+    present: next,
+    future: [], // a new edit invalidates the redo stack
+  };
+}
+
+function undoValue<T>(history: HistoryState<T>): HistoryState<T> {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+function redoValue<T>(history: HistoryState<T>): HistoryState<T> {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
+
+/**
+ * Custom hook for undoable state
+ * @param initialValue - starting value when nothing is persisted
+ * @param options - capacity, optional storage key and validator
+ * @returns [value, setValue, { undo, redo, canUndo, canRedo, clearHistory }]
+ */
+export function useHistoryState<T>(
+  initialValue: T,
+  { capacity = 50, storageKey, validate }: HistoryStateOptions<T> = {}
+): UseHistoryStateResult<T> {
+  // Without a storage key the history lives in a private in-memory store,
+  // so both cases share the same useLocalStorage code path
+  const [memoryStorage] = useState(() => createMemoryStorage());
+
+  const isHistory = useCallback((value: unknown): value is HistoryState<T> => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { past, present, future } = value as HistoryState<unknown>;
+    const isValue = validate ?? ((item: unknown): item is T => item !== undefined);
+    return Array.isArray(past) && Array.isArray(future)
+      && isValue(present) && past.every(isValue) && future.every(isValue);
+  }, [validate]);
+
+  const [history, setHistory] = useLocalStorage<HistoryState<T>>(
+    storageKey ?? 'history',
+    { past: [], present: initialValue, future: [] },
+    {
+      storage: storageKey ? localStorageAdapter : memoryStorage,
+      validate: isHistory,
+      syncExternalStore: true,
+    }
+  );
+
+  const setValue = useCallback((value: T | ((prev: T) => T)) => {
+    setHistory(prev => pushValue(prev, value instanceof Function ? value(prev.present) : value, capacity));
+  }, [setHistory, capacity]);
+
+  const undo = useCallback(() => setHistory(undoValue), [setHistory]);
+  const redo = useCallback(() => setHistory(redoValue), [setHistory]);
+  const clearHistory = useCallback(() => {
+    setHistory(prev => ({ past: [], present: prev.present, future: [] }));
+  }, [setHistory]);
+
+  return [history.present, setValue, {
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    clearHistory,
+  }];
+}
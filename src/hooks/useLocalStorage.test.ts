@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from '../lib/storage';
+import { isNoteList, NOTES_VERSION, notesMigrations } from '../lib/notes';
+import type { Note } from '../lib/notes';
+import { StoredValueError, useLocalStorage } from './useLocalStorage';
+import type { LocalStorageOptions } from './useLocalStorage';
+
+afterEach(cleanup);
+
+async function renderStored<T>(initialValue: T, options: LocalStorageOptions<T>) {
+  const hook = renderHook(() => useLocalStorage('key', initialValue, options));
+  await waitFor(() => expect(hook.result.current[2].status).toBe('ready'));
+  return hook;
+}
+
+const notesOptions = (storage = createMemoryStorage()): LocalStorageOptions<Note[]> => ({
+  storage,
+  version: NOTES_VERSION,
+  migrations: notesMigrations,
+  validate: isNoteList,
+  onError: vi.fn(),
+});
+
+describe('useLocalStorage versioned storage', () => {
+  it('writes the value inside a version envelope', async () => {
+    const storage = createMemoryStorage();
+    const { result } = await renderStored(0, { storage, version: 3 });
+
+    act(() => result.current[1](42));
+
+    expect(JSON.parse(storage.getItem('key') ?? '')).toEqual({ __version: 3, value: 42 });
+  });
+
+  it('runs every migration on a value stored before versioning existed', async () => {
+    const storage = createMemoryStorage({ key: JSON.stringify(['first', 'second']) });
+    const { result } = await renderStored([], notesOptions(storage));
+
+    expect(result.current[0]).toEqual([
+      { id: 'legacy-0', text: 'first', tags: [], createdAt: null, updatedAt: null, pinned: false },
+      { id: 'legacy-1', text: 'second', tags: [], createdAt: null, updatedAt: null, pinned: false },
+    ]);
+  });
+
+  it('only runs the migrations after the stored version', async () => {
+    const stored = { __version: 1, value: [{ id: 'a', text: 'kept', pinned: true }] };
+    const storage = createMemoryStorage({ key: JSON.stringify(stored) });
+    const { result } = await renderStored([], notesOptions(storage));
+
+    expect(result.current[0]).toEqual([
+      { id: 'a', text: 'kept', tags: [], createdAt: null, updatedAt: null, pinned: true },
+    ]);
+  });
+
+  it.each([
+    ['parse', '{not json'],
+    ['migrate', JSON.stringify({ __version: NOTES_VERSION + 1, value: [] })],
+    ['validate', JSON.stringify({ __version: NOTES_VERSION, value: [{ id: 1 }] })],
+  ])('falls back to the initial value when the stored value fails to %s', async (reason, item) => {
+    const options = notesOptions(createMemoryStorage({ key: item }));
+    const { result } = await renderStored([], options);
+
+    expect(result.current[0]).toEqual([]);
+    expect(options.onError).toHaveBeenCalledWith(expect.any(StoredValueError));
+    expect(vi.mocked(options.onError!).mock.calls[0][0]).toMatchObject({ key: 'key', reason });
+  });
+
+  it('reports a missing migration instead of guessing', async () => {
+    const options: LocalStorageOptions<number> = {
+      storage: createMemoryStorage({ key: JSON.stringify({ __version: 0, value: 1 }) }),
+      version: 2,
+      migrations: [value => value],
+      onError: vi.fn(),
+    };
+    const { result } = await renderStored(7, options);
+
+    expect(result.current[0]).toBe(7);
+    expect(vi.mocked(options.onError!).mock.calls[0][0]).toMatchObject({ reason: 'migrate' });
+  });
+});
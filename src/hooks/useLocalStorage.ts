@@ -1,45 +1,449 @@
 /**
  * File: src/hooks/useLocalStorage.ts
- * 
+ *
  * Custom hook for localStorage management
  * Provides persistent state that survives page refreshes
+ * and stays in sync across tabs and components sharing a key.
+ * Any StorageAdapter (sessionStorage, in-memory, IndexedDB) can stand in for localStorage
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { StorageQuotaError, isQuotaExceededError, jsonSerializer, localStorageAdapter, measureBytes } from '../lib/storage';
+import type { Serializer, StorageAdapter } from '../lib/storage';
+
+// Setter accepts a value or a useState-style updater function
+export type SetValue<T> = (value: T | ((prev: T) => T)) => void;
+
+// 'loading' until the first read finishes, 'error' if the backend couldn't be read at all
+export type LocalStorageStatus = 'loading' | 'ready' | 'error';
+
+export interface LocalStorageControls {
+  /** Delete the key from storage and fall back to initialValue */
+  remove: () => void;
+  /** Write initialValue back to storage */
+  reset: () => void;
+  status: LocalStorageStatus;
+  /** Approximate bytes this key occupies in storage (0 when nothing is stored) */
+  bytes: number;
+  /** Set when the last write didn't fit, even after trimming - cleared by the next successful write */
+  quotaError: StorageQuotaError | null;
+  /** True when the last write only fit after the trim policy shrank it */
+  trimmed: boolean;
+}
+
+// Extra controls live in a third slot so `const [value, setValue] = ...` keeps working
+export type UseLocalStorageResult<T> = [T, SetValue<T>, LocalStorageControls];
+
+export interface LocalStorageOptions<T> {
+  /** Schema version written next to the value (defaults to 0) */
+  version?: number;
+  /** migrations[n] upgrades a value stored at version n to version n + 1 */
+  migrations?: Array<(value: unknown) => unknown>;
+  /** Type guard run on every read - stored data that fails it is discarded */
+  validate?: (value: unknown) => value is T;
+  /** Reports bad stored data and writes that don't fit (defaults to console.error) */
+  onError?: (error: StoredValueError | StorageQuotaError) => void;
+  /** Per-key size budget in bytes - writes over it are handled like a full quota */
+  maxBytes?: number;
+  /**
+   * Eviction policy for writes that don't fit: return a smaller value to retry
+   * with, or null to give up. See keepNewest() for array values
+   */
+  trim?: (value: T) => T | null;
+  /** Where the value lives (defaults to localStorage) - pass a module-level adapter, not a new one per render */
+  storage?: StorageAdapter;
+  /** How the value becomes a string (defaults to JSON) - use richJsonSerializer for Date/Map/Set */
+  serializer?: Serializer;
+  /**
+   * Read through useSyncExternalStore instead of an effect (sync adapters only).
+   * Client-only widgets then show the stored value on their very first paint;
+   * server-rendered ones still hydrate with initialValue, so markup matches.
+   * Don't toggle it during a component's lifetime.
+   */
+  syncExternalStore?: boolean;
+}
+
+export class StoredValueError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly reason: 'parse' | 'migrate' | 'validate',
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'StoredValueError';
+  }
+}
+
+// What actually lands in storage: the value tagged with its schema version
+interface VersionedValue {
+  __version: number;
+  value: unknown;
+}
+
+function isVersionedValue(data: unknown): data is VersionedValue {
+  return typeof data === 'object' && data !== null && '__version' in data && 'value' in data
+    && typeof (data as VersionedValue).__version === 'number';
+}
+
+function serialize<T>(value: T, options: LocalStorageOptions<T>): string {
+  const envelope: VersionedValue = { __version: options.version ?? 0, value };
+  return (options.serializer ?? jsonSerializer).stringify(envelope);
+}
+
+/**
+ * Turn a raw storage string back into a T: unwrap, migrate up to the current
+ * version, then validate. Throws StoredValueError when any step fails.
+ */
+function deserialize<T>(key: string, item: string, options: LocalStorageOptions<T>): T {
+  let data: unknown;
+  try {
+    data = (options.serializer ?? jsonSerializer).parse(item);
+  } catch (error) {
+    throw new StoredValueError(key, 'parse', `Stored value for "${key}" could not be parsed`, error);
+  }
+
+  // Values written before versioning existed are treated as version 0
+  let version = isVersionedValue(data) ? data.__version : 0;
+  let value = isVersionedValue(data) ? data.value : data;
+  const targetVersion = options.version ?? 0;
+
+  if (version > targetVersion) {
+    throw new StoredValueError(key, 'migrate', `Stored value for "${key}" is version ${version}, newer than ${targetVersion}`);
+  }
+
+  // 🐍 Python: Like Django/Alembic migrations - apply each step in order
+  while (version < targetVersion) {
+    const migrate = options.migrations?.[version];
+    if (!migrate) {
+      throw new StoredValueError(key, 'migrate', `No migration for "${key}" from version ${version}`);
+    }
+    try {
+      value = migrate(value);
+    } catch (error) {
+      throw new StoredValueError(key, 'migrate', `Migration for "${key}" from version ${version} failed`, error);
+    }
+    version += 1;
+  }
+
+  if (options.validate && !options.validate(value)) {
+    throw new StoredValueError(key, 'validate', `Stored value for "${key}" failed validation`);
+  }
+  return value as T;
+}
+
+function readStoredValue<T>(key: string, item: string | null, fallback: T, options: LocalStorageOptions<T>): T {
+  if (item === null) return fallback;
+
+  try {
+    return deserialize(key, item, options);
+  } catch (error) {
+    // Bad data falls back to the default instead of crashing the render
+    if (error instanceof StoredValueError) {
+      (options.onError ?? console.error)(error);
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+function reportError(action: string, storage: StorageAdapter) {
+  return (error: unknown) => console.error(`Error ${action} ${storage.name}:`, error);
+}
+
+function removeItem(storage: StorageAdapter, key: string) {
+  const onRemoveError = reportError('removing from', storage);
+  try {
+    if (storage.kind === 'sync') {
+      storage.removeItem(key);
+    } else {
+      storage.removeItem(key).catch(onRemoveError);
+    }
+  } catch (error) {
+    onRemoveError(error);
+  }
+}
+
+/**
+ * Trim policy for array values: keep the newest `count` entries, and if that
+ * still doesn't fit, keep dropping the oldest one
+ * @param newestFirst - true when new entries are prepended (e.g. message history)
+ */
+export function keepNewest<Item>(count: number, { newestFirst = false } = {}) {
+  return (items: Item[]): Item[] | null => {
+    if (items.length === 0) return null;
+    const keep = items.length > count ? count : items.length - 1;
+    return newestFirst ? items.slice(0, keep) : items.slice(items.length - keep);
+  };
+}
+
+interface StorageUsage {
+  bytes: number;
+  quotaError: StorageQuotaError | null;
+  trimmed: boolean;
+}
+
+// A write made before the first read finished, replayed on top of the stored value
+type PendingWrite<T> = { type: 'set'; value: T | ((prev: T) => T) } | { type: 'remove' };
+
+const subscribeToNothing = () => () => {};
 
 /**
  * Custom hook to manage localStorage state
  * @param key - localStorage key
  * @param initialValue - default value if no stored value exists
- * @returns [storedValue, setValue] - tuple similar to useState
+ * @param options - schema version, migrations, validation, storage backend and size budget
+ * @returns [storedValue, setValue, { remove, reset, status, bytes, ... }] - tuple similar to useState
  */
-export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T) => void] {
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: T,
+  options: LocalStorageOptions<T> = {}
+): UseLocalStorageResult<T> {
   // 🐍 Python: Like creating a reusable function
   const [storedValue, setStoredValue] = useState<T>(initialValue);
-  const [mounted, setMounted] = useState(false);
+  const [status, setStatus] = useState<LocalStorageStatus>('loading');
+  const [usage, setUsage] = useState<StorageUsage>({ bytes: 0, quotaError: null, trimmed: false });
 
-  useEffect(() => {
-    setMounted(true);
-    try {
-      const item = window.localStorage.getItem(key);
-      if (item) {
-        setStoredValue(JSON.parse(item));
+  // Callers usually pass a fresh literal (e.g. []) every render - keep the
+  // latest one in a ref so it doesn't re-trigger the effects below
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const storage = options.storage ?? localStorageAdapter;
+  const externalStore = options.syncExternalStore && storage.kind === 'sync' ? storage : null;
+
+  // useSyncExternalStore path: the raw string is the snapshot (strings compare
+  // by value, so React only re-renders when the stored data really changed)
+  const subscribeToStore = useCallback(
+    (onChange: () => void) => (externalStore ? externalStore.subscribe(key, onChange) : () => {}),
+    [externalStore, key]
+  );
+  const storeItem = useSyncExternalStore(
+    subscribeToStore,
+    () => {
+      try {
+        return externalStore ? externalStore.getItem(key) : null;
+      } catch {
+        return null;
       }
+    },
+    () => null // server + hydration render: same markup as the server sent
+  );
+  const storeValue = useMemo(
+    () => readStoredValue(key, storeItem, initialValueRef.current, optionsRef.current),
+    [key, storeItem]
+  );
+  // false during SSR and the hydration render, true on every client render after
+  const hydrated = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+
+  const value = externalStore ? storeValue : storedValue;
+
+  // Latest committed value, so back-to-back updater calls build on each other
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  // Bumped on every write, so a slow async read can't clobber newer data
+  const writeCountRef = useRef(0);
+  // Until the first read finishes we don't know what's stored - writes wait
+  // here instead of being dropped or overwriting data we haven't seen yet
+  const loadedRef = useRef(externalStore !== null);
+  const pendingWritesRef = useRef<PendingWrite<T>[]>([]);
+
+  // Serialize and write `next`, shrinking it with the trim policy while it
+  // doesn't fit. Sync adapters never reach an await, so their write still
+  // lands before this returns
+  const persist = useCallback(async (next: T) => {
+    const currentOptions = optionsRef.current;
+    const writesBeforePersist = writeCountRef.current;
+    let value = next;
+    let item: string;
+    try {
+      item = serialize(value, currentOptions);
     } catch (error) {
-      console.error('Error reading from localStorage:', error);
+      reportError('saving to', storage)(error);
+      return;
     }
-  }, [key]);
+    let trimmed = false;
 
-  const setValue = useCallback((value: T) => {
-    try {
-      setStoredValue(value);
-      if (mounted && typeof window !== 'undefined') {
-        window.localStorage.setItem(key, JSON.stringify(value));
+    for (;;) {
+      const bytes = measureBytes(key, item);
+      try {
+        if (currentOptions.maxBytes !== undefined && bytes > currentOptions.maxBytes) {
+          throw new StorageQuotaError(key, bytes, currentOptions.maxBytes);
+        }
+        if (storage.kind === 'sync') {
+          storage.setItem(key, item);
+        } else {
+          await storage.setItem(key, item);
+        }
+        setUsage({ bytes, quotaError: null, trimmed });
+        // Show what was actually saved, unless a newer write already replaced it
+        if (trimmed && writeCountRef.current === writesBeforePersist) {
+          valueRef.current = value;
+          setStoredValue(value);
+        }
+        return;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) {
+          reportError('saving to', storage)(error);
+          return;
+        }
+
+        // Only keep going while the trim policy actually makes progress
+        const smaller = currentOptions.trim?.(value) ?? null;
+        const smallerItem = smaller === null ? null : serialize(smaller, currentOptions);
+        if (smaller === null || smallerItem === null || smallerItem.length >= item.length) {
+          // Nothing left to trim: surface a typed error instead of pretending it saved
+          const quotaError = error instanceof StorageQuotaError
+            ? error
+            : new StorageQuotaError(key, bytes, undefined, error);
+          setUsage(prev => ({ ...prev, quotaError, trimmed: false }));
+          (currentOptions.onError ?? console.error)(quotaError);
+          return;
+        }
+        value = smaller;
+        item = smallerItem;
+        trimmed = true;
+      }
+    }
+  }, [key, storage]);
+
+  useEffect(() => {
+    if (externalStore) return; // useSyncExternalStore does the reading
+
+    let cancelled = false;
+    loadedRef.current = false;
+    setStatus('loading');
+
+    // First read: replay queued writes on top of what's stored, then persist the result
+    const finishLoading = (stored: T) => {
+      const pendingWrites = pendingWritesRef.current;
+      pendingWritesRef.current = [];
+      loadedRef.current = true;
+
+      let next = stored;
+      for (const write of pendingWrites) {
+        next = write.type === 'remove'
+          ? initialValueRef.current
+          : write.value instanceof Function ? write.value(next) : write.value;
+      }
+      valueRef.current = next;
+      setStoredValue(next);
+      setStatus('ready');
+
+      const lastWrite = pendingWrites[pendingWrites.length - 1];
+      if (lastWrite) {
+        writeCountRef.current += 1;
+        if (lastWrite.type === 'remove') {
+          removeItem(storage, key);
+          setUsage({ bytes: 0, quotaError: null, trimmed: false });
+        } else {
+          void persist(next);
+        }
       }
+    };
+
+    const failLoading = (error: unknown) => {
+      if (cancelled) return;
+      reportError('reading from', storage)(error);
+      if (!loadedRef.current) {
+        // Keep whatever the user did while we waited; later writes still try to persist
+        pendingWritesRef.current = [];
+        loadedRef.current = true;
+        setStatus('error');
+      }
+    };
+
+    const syncFromStorage = () => {
+      const writesBeforeRead = writeCountRef.current;
+      const apply = (item: string | null) => {
+        if (cancelled) return;
+        setUsage(prev => ({ ...prev, bytes: item === null ? 0 : measureBytes(key, item) }));
+        const stored = readStoredValue(key, item, initialValueRef.current, optionsRef.current);
+        if (!loadedRef.current) {
+          finishLoading(stored);
+        } else if (writeCountRef.current === writesBeforeRead) {
+          valueRef.current = stored;
+          setStoredValue(stored);
+        }
+      };
+
+      try {
+        if (storage.kind === 'sync') {
+          apply(storage.getItem(key));
+        } else {
+          storage.getItem(key).then(apply, failLoading);
+        }
+      } catch (error) {
+        failLoading(error);
+      }
+    };
+
+    syncFromStorage();
+    // Re-read whenever another tab or another hook instance writes this key
+    const unsubscribe = storage.subscribe(key, syncFromStorage);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [key, storage, externalStore, persist]);
+
+  const setValue = useCallback<SetValue<T>>((value) => {
+    if (!loadedRef.current) {
+      // Show the change right away; it's persisted once we know what's stored
+      pendingWritesRef.current.push({ type: 'set', value });
+      const next = value instanceof Function ? value(valueRef.current) : value;
+      valueRef.current = next;
+      setStoredValue(next);
+      return;
+    }
+
+    try {
+      // Sync backends: start from what's really stored, so a write from another
+      // tab isn't overwritten by our stale copy. Async backends can't be read
+      // synchronously - their subscription keeps valueRef fresh instead
+      const prev = storage.kind === 'sync'
+        ? readStoredValue(key, storage.getItem(key), valueRef.current, optionsRef.current)
+        : valueRef.current;
+      const next = value instanceof Function ? value(prev) : value;
+
+      valueRef.current = next;
+      writeCountRef.current += 1;
+      setStoredValue(next);
+      void persist(next);
     } catch (error) {
-      console.error('Error saving to localStorage:', error);
+      reportError('saving to', storage)(error);
+    }
+  }, [key, storage, persist]);
+
+  const remove = useCallback(() => {
+    valueRef.current = initialValueRef.current;
+    setStoredValue(initialValueRef.current);
+    if (!loadedRef.current) {
+      pendingWritesRef.current.push({ type: 'remove' });
+      return;
     }
-  }, [key, mounted]);
+    writeCountRef.current += 1;
+    removeItem(storage, key);
+    setUsage({ bytes: 0, quotaError: null, trimmed: false });
+  }, [key, storage]);
+
+  const reset = useCallback(() => {
+    setValue(initialValueRef.current);
+  }, [setValue]);
+
+  const currentStatus = externalStore ? (hydrated ? 'ready' : 'loading') : status;
+
+  const bytes = externalStore ? (storeItem === null ? 0 : measureBytes(key, storeItem)) : usage.bytes;
 
-  return [storedValue, setValue];
-} 
\ No newline at end of file
+  return [value, setValue, {
+    remove,
+    reset,
+    status: currentStatus,
+    bytes,
+    quotaError: usage.quotaError,
+    trimmed: usage.trimmed,
+  }];
+}
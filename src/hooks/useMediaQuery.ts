@@ -0,0 +1,29 @@
+/**
+ * File: src/hooks/useMediaQuery.ts
+ *
+ * Custom hook for CSS media queries
+ * Re-renders whenever the query starts or stops matching
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+/**
+ * Custom hook to track a media query
+ * @param query - any CSS media query, e.g. '(prefers-color-scheme: dark)'
+ * @param serverValue - what to assume during SSR and hydration
+ * @returns whether the query currently matches
+ */
+export function useMediaQuery(query: string, serverValue = false): boolean {
+  // 🐍 Python: Like registering a callback with an event loop
+  const subscribe = useCallback((onChange: () => void) => {
+    const mediaQuery = window.matchMedia(query);
+    mediaQuery.addEventListener('change', onChange);
+    return () => mediaQuery.removeEventListener('change', onChange);
+  }, [query]);
+
+  return useSyncExternalStore(
+    subscribe,
+    () => window.matchMedia(query).matches,
+    () => serverValue
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * File: src/hooks/useQueryParam.ts
+ *
+ * Custom hook for state that lives in the URL query string
+ * Filters and views survive reloads and can be shared as links
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+// history.replaceState doesn't fire any event, so setters announce changes themselves
+const QUERY_CHANGE_EVENT = 'query-param-change';
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(QUERY_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(QUERY_CHANGE_EVENT, onChange);
+  };
+}
+
+/**
+ * Custom hook to read and write one query param
+ * @param name - query param name, e.g. 'filter' for ?filter=active
+ * @param fallback - value when the param is missing or invalid (kept out of the URL)
+ * @param isValid - type guard for values typed into the address bar
+ * @returns [value, setValue] - setValue replaces the history entry rather than pushing one
+ */
+export function useQueryParam<T extends string>(
+  name: string,
+  fallback: T,
+  isValid: (value: string) => value is T = (value): value is T => true
+): [T, (value: T) => void] {
+  const raw = useSyncExternalStore(
+    subscribe,
+    () => new URLSearchParams(window.location.search).get(name),
+    () => null // the server never sees the client's query string here
+  );
+  const value = raw !== null && isValid(raw) ? raw : fallback;
+
+  const setValue = useCallback((next: T) => {
+    const url = new URL(window.location.href);
+    if (next === fallback) {
+      url.searchParams.delete(name);
+    } else {
+      url.searchParams.set(name, next);
+    }
+    window.history.replaceState(window.history.state, '', url);
+    window.dispatchEvent(new Event(QUERY_CHANGE_EVENT));
+  }, [name, fallback]);
+
+  return [value, setValue];
+}
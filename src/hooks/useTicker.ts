@@ -0,0 +1,92 @@
+/**
+ * File: src/hooks/useTicker.ts
+ *
+ * Custom hook for drift-corrected ticking
+ * setInterval(fn, 1000) slowly drifts (each callback runs a little late and
+ * the lateness adds up) and keeps burning CPU in background tabs. This hook
+ * schedules every tick against performance.now() instead, and stops while
+ * the tab is hidden.
+ */
+
+import { useEffect, useRef } from 'react';
+
+export interface TickerOptions {
+  /** Milliseconds between ticks (defaults to 1000) */
+  interval?: number;
+  /** Set to false to stop ticking, e.g. while a stopwatch is paused */
+  enabled?: boolean;
+  /** Stop while the tab is hidden and tick again as soon as it's visible (defaults to true) */
+  pauseWhenHidden?: boolean;
+  /** Line ticks up with wall-clock boundaries, so a clock's seconds flip on time */
+  alignToClock?: boolean;
+}
+
+/**
+ * Custom hook to run a callback on a steady beat
+ * @param onTick - called with performance.now() on every tick (and once on start)
+ * @param options - interval, enabled, pauseWhenHidden, alignToClock
+ */
+export function useTicker(
+  onTick: (now: number) => void,
+  { interval = 1000, enabled = true, pauseWhenHidden = true, alignToClock = false }: TickerOptions = {}
+): void {
+  // Latest callback without restarting the timer every render
+  const onTickRef = useRef(onTick);
+  useEffect(() => {
+    onTickRef.current = onTick;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let nextTickAt = 0; // performance.now() timestamp the next tick is due
+
+    const tick = () => {
+      const now = performance.now();
+      onTickRef.current(now);
+
+      // Aim for the planned time, not "now + interval" - that's what stops drift.
+      // If we fell more than a whole interval behind (laptop sleep), skip ahead
+      nextTickAt += interval;
+      if (nextTickAt <= now) {
+        nextTickAt = now + interval - ((now - nextTickAt) % interval);
+      }
+      timer = setTimeout(tick, nextTickAt - now);
+    };
+
+    const start = () => {
+      clearTimeout(timer);
+      const now = performance.now();
+      onTickRef.current(now);
+      nextTickAt = alignToClock ? now + (interval - (Date.now() % interval)) : now + interval;
+      timer = setTimeout(tick, nextTickAt - now);
+    };
+
+    const stop = () => {
+      clearTimeout(timer);
+      timer = undefined;
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        stop();
+      } else {
+        start();
+      }
+    };
+
+    if (!pauseWhenHidden || !document.hidden) {
+      start();
+    }
+    if (pauseWhenHidden) {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
+
+    // 🐍 Python: Like __exit__ in context manager
+    return () => {
+      stop();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [interval, enabled, pauseWhenHidden, alignToClock]);
+}
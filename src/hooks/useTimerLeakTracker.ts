@@ -0,0 +1,97 @@
+/**
+ * File: src/hooks/useTimerLeakTracker.ts
+ *
+ * Instrumentation for the Clock's "bad example"
+ * Counts renders and live intervals so a leak is visible on screen, and keeps
+ * it sandboxed: timer creation is capped, a runaway render count trips a
+ * breaker, and every tracked timer is cleared when tracking stops.
+ */
+
+import { useEffect, useState } from 'react';
+
+export interface TimerLeakOptions {
+  /** Track renders and allow timers (turning this off clears every timer) */
+  enabled: boolean;
+  /** Never run more than this many intervals at once (defaults to 25) */
+  maxTimers?: number;
+  /** Clear everything once this many renders were counted (defaults to 1000) */
+  maxRenders?: number;
+}
+
+export interface TimerLeakTracker {
+  /** Renders counted since tracking started */
+  renders: number;
+  /** Intervals currently running */
+  liveTimers: number;
+  /** Intervals created since tracking started, including cleared ones */
+  createdTimers: number;
+  /** maxTimers reached - new timers are refused */
+  capped: boolean;
+  /** maxRenders reached - every timer was cleared and no more are created */
+  tripped: boolean;
+  /** Start a counted interval; ignored when capped, tripped or disabled */
+  leakInterval: (callback: () => void, ms: number) => void;
+}
+
+// Mutable on purpose: it's written during render, which is the bug being demonstrated
+interface TimerRegistry {
+  timers: Set<ReturnType<typeof setInterval>>;
+  renders: number;
+  created: number;
+  tripped: boolean;
+}
+
+function clearRegistry(registry: TimerRegistry) {
+  registry.timers.forEach(timer => clearInterval(timer));
+  registry.timers.clear();
+}
+
+/**
+ * Custom hook that instruments a component while it leaks timers
+ * Call it at the top of the component; every call counts as one render
+ * @param options - enabled flag and safety caps
+ * @returns live counters plus leakInterval() to create tracked intervals
+ */
+export function useTimerLeakTracker({
+  enabled,
+  maxTimers = 25,
+  maxRenders = 1000,
+}: TimerLeakOptions): TimerLeakTracker {
+  // Same object for the component's lifetime, outside React's state updates
+  const [registry] = useState<TimerRegistry>(() => ({ timers: new Set(), renders: 0, created: 0, tripped: false }));
+
+  if (enabled) {
+    registry.renders += 1;
+    if (registry.renders >= maxRenders && !registry.tripped) {
+      registry.tripped = true;
+      clearRegistry(registry);
+    }
+  }
+
+  // Leaving bad mode (or unmounting) clears every leaked timer and resets the counters
+  useEffect(() => {
+    if (!enabled) return;
+    return () => {
+      clearRegistry(registry);
+      registry.renders = 0;
+      registry.created = 0;
+      registry.tripped = false;
+    };
+  }, [enabled, registry]);
+
+  const leakInterval = (callback: () => void, ms: number) => {
+    if (!enabled || registry.tripped || registry.timers.size >= maxTimers) return;
+    registry.timers.add(setInterval(callback, ms));
+    registry.created += 1;
+  };
+
+  // Getters, so counts read after leakInterval() in the same render are current
+  return {
+    get renders() { return registry.renders; },
+    get liveTimers() { return registry.timers.size; },
+    get createdTimers() { return registry.created; },
+    get capped() { return registry.timers.size >= maxTimers; },
+    get tripped() { return registry.tripped; },
+    leakInterval,
+  };
+}
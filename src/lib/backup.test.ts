@@ -0,0 +1,135 @@
+// @vitest-environment jsdom
+import { Blob as NodeBlob } from 'node:buffer';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyBackup,
+  collectBackup,
+  decodeShareFragment,
+  diffBackup,
+  encodeShareFragment,
+  MAX_SHARE_BYTES,
+  readBackupFile,
+  toBackupFile,
+} from './backup';
+import type { BackupData } from './backup';
+import { NOTES_STORAGE_KEY } from './notes';
+import { COUNTER_STORAGE_KEY, TODOS_STORAGE_KEY } from './storageKeys';
+
+const stored = (value: unknown) => JSON.stringify({ __version: 0, value });
+
+function storedItems(): Record<string, string> {
+  return Object.fromEntries(Object.keys(localStorage).map(key => [key, localStorage.getItem(key) ?? '']));
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  localStorage.setItem(COUNTER_STORAGE_KEY, stored(3));
+  localStorage.setItem(NOTES_STORAGE_KEY, stored([]));
+  localStorage.setItem('another-app', 'not ours');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('backup round trip', () => {
+  it('exports only the keys the app owns, and reads them back unchanged', async () => {
+    const data = await collectBackup();
+    expect(data).toEqual({
+      localStorage: { [COUNTER_STORAGE_KEY]: stored(3), [NOTES_STORAGE_KEY]: stored([]) },
+    });
+
+    const read = readBackupFile(JSON.parse(JSON.stringify(toBackupFile(data))));
+    expect(read?.dropped).toBe(0);
+    expect(read?.backup.data).toEqual(data);
+  });
+
+  it('drops entries for keys the app does not own, or that are not stored JSON', () => {
+    const file = toBackupFile({
+      localStorage: {
+        [COUNTER_STORAGE_KEY]: stored(1),
+        [TODOS_STORAGE_KEY]: '{broken',
+        'another-app': stored(2),
+        constructor: stored(3),
+      },
+    });
+
+    const read = readBackupFile(file);
+    expect(read?.dropped).toBe(3);
+    expect(read?.backup.data).toEqual({ localStorage: { [COUNTER_STORAGE_KEY]: stored(1) } });
+  });
+
+  it.each([
+    ['not an object', 'backup'],
+    ['another format', { format: 'something-else', version: 1, data: {} }],
+    ['a newer version', { format: 'react-mastery-backup', version: 99, data: {} }],
+  ])('rejects %s', (_, value) => {
+    expect(readBackupFile(value)).toBeNull();
+  });
+});
+
+describe('restoring', () => {
+  const incoming: BackupData = {
+    localStorage: { [COUNTER_STORAGE_KEY]: stored(10), [TODOS_STORAGE_KEY]: stored([]) },
+  };
+
+  it('previews merge and replace differently', async () => {
+    const current = await collectBackup();
+    const kinds = (mode: 'merge' | 'replace') =>
+      Object.fromEntries(diffBackup(current, incoming, mode).map(change => [change.key, change.kind]));
+
+    expect(kinds('merge')).toEqual({ [COUNTER_STORAGE_KEY]: 'changed', [NOTES_STORAGE_KEY]: 'kept', [TODOS_STORAGE_KEY]: 'added' });
+    expect(kinds('replace')).toEqual({ [COUNTER_STORAGE_KEY]: 'changed', [NOTES_STORAGE_KEY]: 'removed', [TODOS_STORAGE_KEY]: 'added' });
+  });
+
+  it('replaces the app data and can be undone with the snapshot it returns', async () => {
+    const before = storedItems();
+
+    const previous = await applyBackup(incoming, 'replace');
+    expect(storedItems()).toEqual({ ...incoming.localStorage, 'another-app': 'not ours' });
+
+    await applyBackup(previous, 'replace');
+    expect(storedItems()).toEqual(before);
+  });
+
+  it('puts everything back when a write fails partway', async () => {
+    const before = storedItems();
+    const setItem = Storage.prototype.setItem;
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key, value) {
+      if (key === TODOS_STORAGE_KEY) throw new DOMException('Full', 'QuotaExceededError');
+      setItem.call(this, key, value);
+    });
+
+    await expect(applyBackup(incoming, 'replace')).rejects.toThrow('Full');
+    expect(storedItems()).toEqual(before);
+  });
+});
+
+describe('share links', () => {
+  // jsdom's Blob has no stream() - browsers' and Node's do
+  beforeEach(() => {
+    vi.stubGlobal('Blob', NodeBlob);
+  });
+
+  it('survive the trip through a URL fragment', async () => {
+    const file = toBackupFile(await collectBackup());
+    const fragment = await encodeShareFragment(file);
+
+    expect(fragment).toMatch(/^backup=[\w-]+$/);
+    expect(readBackupFile(await decodeShareFragment(`#${fragment}`))?.backup).toEqual(file);
+  });
+
+  it('returns undefined when the hash holds no backup', async () => {
+    expect(await decodeShareFragment('#section-2')).toBeUndefined();
+  });
+
+  it('refuses a fragment that inflates past the size cap', async () => {
+    // Runs of one character compress ~1000:1, so a short link can hide a huge payload
+    const huge = { format: 'react-mastery-backup', padding: ' '.repeat(MAX_SHARE_BYTES + 1) };
+    const fragment = await encodeShareFragment(huge as never);
+
+    expect(fragment.length).toBeLessThan(MAX_SHARE_BYTES / 100);
+    await expect(decodeShareFragment(`#${fragment}`)).rejects.toThrow('larger than');
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * File: src/lib/backup.ts
+ *
+ * Backup and restore for everything the dashboard keeps in this browser
+ * Values are copied as the raw strings in storage, version envelope included,
+ * so a restored value goes through the same migrations and validation on its
+ * next read as one that never left
+ */
+
+import { FLAG_OVERRIDES_STORAGE_KEY, FLAG_USER_ID_STORAGE_KEY } from './flags';
+import { NOTES_STORAGE_KEY } from './notes';
+import { localStorageAdapter, measureBytes } from './storage';
+import type { StorageAdapter } from './storage';
+import {
+  CLOCK_TAB_STORAGE_KEY,
+  CLOCK_ZONES_STORAGE_KEY,
+  COUNTDOWN_STORAGE_KEY,
+  COUNTER_STORAGE_KEY,
+  TODOS_STORAGE_KEY,
+} from './storageKeys';
+import { THEME_STORAGE_KEY, THEME_TOKENS_STORAGE_KEY } from './theme';
+
+// Only localStorage for now - no widget keeps anything in IndexedDB any more
+export type BackupArea = 'localStorage';
+
+interface BackupAreaConfig {
+  storage: StorageAdapter;
+  /** Every key the app reads from this area - a widget that persists something new belongs here */
+  keys: readonly string[];
+}
+
+// Listed one by one: anything else in the store is another app's data, or something
+// no code reads any more
+export const BACKUP_AREAS: Record<BackupArea, BackupAreaConfig> = {
+  localStorage: {
+    storage: localStorageAdapter,
+    keys: [
+      COUNTER_STORAGE_KEY,
+      CLOCK_TAB_STORAGE_KEY,
+      CLOCK_ZONES_STORAGE_KEY,
+      COUNTDOWN_STORAGE_KEY,
+      TODOS_STORAGE_KEY,
+      NOTES_STORAGE_KEY,
+      THEME_STORAGE_KEY,
+      THEME_TOKENS_STORAGE_KEY,
+      FLAG_OVERRIDES_STORAGE_KEY,
+      FLAG_USER_ID_STORAGE_KEY,
+    ],
+  },
+};
+
+export function isOwnedKey(area: BackupArea, key: string): boolean {
+  return BACKUP_AREAS[area].keys.includes(key);
+}
+
+const AREAS = Object.keys(BACKUP_AREAS) as BackupArea[];
+
+/** Raw stored strings by key, per area */
+export type BackupData = Record<BackupArea, Record<string, string>>;
+
+export const BACKUP_FORMAT = 'react-mastery-backup';
+export const BACKUP_VERSION = 1;
+
+/** What "Export backup" writes and "Import backup" reads back */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: string;
+  data: BackupData;
+}
+
+// Nothing to read during server rendering
+const isBrowser = () => typeof window !== 'undefined';
+
+/**
+ * Read every key the app owns, in every area
+ * An area that can't be read (e.g. storage blocked by the browser) is logged and left empty
+ */
+export async function collectBackup(): Promise<BackupData> {
+  const data: BackupData = { localStorage: {} };
+  if (!isBrowser()) return data;
+  for (const area of AREAS) {
+    const { storage } = BACKUP_AREAS[area];
+    try {
+      // await works for sync adapters too - it just unwraps a plain value
+      for (const key of (await storage.keys()).filter(key => isOwnedKey(area, key)).sort()) {
+        const item = await storage.getItem(key);
+        if (item !== null) data[area][key] = item;
+      }
+    } catch (error) {
+      console.error(`Error reading ${storage.name} for backup:`, error);
+    }
+  }
+  return data;
+}
+
+export interface BackupEntry {
+  area: BackupArea;
+  key: string;
+  bytes: number;
+}
+
+export function listEntries(data: BackupData): BackupEntry[] {
+  return AREAS.flatMap(area =>
+    Object.entries(data[area]).map(([key, item]) => ({ area, key, bytes: measureBytes(key, item) }))
+  );
+}
+
+export function toBackupFile(data: BackupData): BackupFile {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), data };
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check an imported backup and keep what can be restored
+ * Entries that aren't stored JSON, or belong to keys the app doesn't own, are dropped
+ * @returns null when it isn't a backup file (or was made by a newer version of the app)
+ */
+export function readBackupFile(value: unknown): { backup: BackupFile; dropped: number } | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { format, version, exportedAt, data } = value as Record<string, unknown>;
+  if (format !== BACKUP_FORMAT || typeof version !== 'number' || version > BACKUP_VERSION) return null;
+  if (typeof data !== 'object' || data === null) return null;
+
+  const restored: BackupData = { localStorage: {} };
+  let dropped = 0;
+  for (const area of AREAS) {
+    const entries = (data as Record<string, unknown>)[area];
+    if (entries === undefined) continue;
+    if (typeof entries !== 'object' || entries === null) return null;
+    for (const [key, item] of Object.entries(entries)) {
+      if (typeof item === 'string' && isOwnedKey(area, key) && isJson(item)) restored[area][key] = item;
+      else dropped++;
+    }
+  }
+  const time = typeof exportedAt === 'string' ? Date.parse(exportedAt) : NaN;
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: Number.isNaN(time) ? '' : new Date(time).toISOString(),
+      data: restored,
+    },
+    dropped,
+  };
+}
+
+// =====================================
+// PREVIEW & RESTORE
+// =====================================
+
+/** merge: imported keys win, everything else stays - replace: the backup becomes the whole app state */
+export type RestoreMode = 'merge' | 'replace';
+
+/** `kept` only happens when merging, `removed` only when replacing */
+export type BackupChangeKind = 'added' | 'changed' | 'unchanged' | 'kept' | 'removed';
+
+export interface BackupChange extends BackupEntry {
+  kind: BackupChangeKind;
+}
+
+/** What restoring `incoming` over `current` would do to each key - nothing is written */
+export function diffBackup(current: BackupData, incoming: BackupData, mode: RestoreMode): BackupChange[] {
+  return AREAS.flatMap(area => {
+    const before = current[area];
+    const after = incoming[area];
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.map((key): BackupChange => {
+      const item = Object.hasOwn(after, key) ? after[key] : before[key];
+      const kind: BackupChangeKind = !Object.hasOwn(after, key)
+        ? (mode === 'merge' ? 'kept' : 'removed')
+        : !Object.hasOwn(before, key) ? 'added' : before[key] === after[key] ? 'unchanged' : 'changed';
+      return { area, key, kind, bytes: measureBytes(key, item) };
+    });
+  });
+}
+
+async function writeBackup(current: BackupData, incoming: BackupData, mode: RestoreMode): Promise<void> {
+  for (const change of diffBackup(current, incoming, mode)) {
+    const { storage } = BACKUP_AREAS[change.area];
+    // Adapters notify subscribers, so every useLocalStorage on the page picks up the new value
+    if (change.kind === 'added' || change.kind === 'changed') {
+      await storage.setItem(change.key, incoming[change.area][change.key]);
+    } else if (change.kind === 'removed') {
+      await storage.removeItem(change.key);
+    }
+  }
+}
+
+/**
+ * Write a backup into storage - returns what was there before, so it can be undone with mode 'replace'
+ * Keys are written one at a time, so if one fails (e.g. storage is full) the ones already written
+ * are put back before the error is rethrown - never a half-restored app
+ */
+export async function applyBackup(incoming: BackupData, mode: RestoreMode): Promise<BackupData> {
+  const current = await collectBackup();
+  try {
+    await writeBackup(current, incoming, mode);
+  } catch (error) {
+    try {
+      await writeBackup(await collectBackup(), current, 'replace');
+    } catch (rollbackError) {
+      console.error('Rolling back a failed restore failed:', rollbackError);
+    }
+    throw error;
+  }
+  return current;
+}
+
+// =====================================
+// SHARE LINKS
+// =====================================
+
+/** The URL fragment parameter a shared backup travels in: #backup=... */
+export const SHARE_PARAM = 'backup';
+/** Longer links get cut off by chat apps and some browsers - export a file instead */
+export const MAX_SHARE_LENGTH = 8000;
+/** A few KB of link can inflate to far more - a real backup never gets near this */
+export const MAX_SHARE_BYTES = 5 * 1024 * 1024;
+
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// base64url: base64 without the characters URLs treat specially
+// Like pipeBytes, but gives up as soon as the output passes `limit` - without reading the rest
+async function inflateLimited(bytes: Uint8Array, limit: number): Promise<Uint8Array> {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      throw new Error(`Shared backup is larger than ${limit} bytes`);
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return output;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * The backup as a URL fragment ("backup=..."), deflated and base64url-encoded
+ * The fragment never reaches the server - it stays between the two browsers
+ */
+export async function encodeShareFragment(backup: BackupFile): Promise<string> {
+  const compressed = await pipeBytes(new TextEncoder().encode(JSON.stringify(backup)), new CompressionStream('deflate-raw'));
+  return `${SHARE_PARAM}=${toBase64Url(compressed)}`;
+}
+
+/**
+ * Unpack a shared backup from location.hash - check the result with readBackupFile
+ * @returns undefined when the hash holds no backup; throws when it's damaged or inflates past MAX_SHARE_BYTES
+ */
+export async function decodeShareFragment(hash: string): Promise<unknown> {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+  if (!encoded) return undefined;
+  const json = await inflateLimited(fromBase64Url(encoded), MAX_SHARE_BYTES);
+  return JSON.parse(new TextDecoder().decode(json));
+}
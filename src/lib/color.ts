@@ -0,0 +1,36 @@
+/**
+ * File: src/lib/color.ts
+ *
+ * Color math for the theme editor
+ * WCAG 2.x contrast ratio: https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio
+ */
+
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+function parseHex(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// How bright a color looks to the human eye, 0 (black) to 1 (white)
+export function relativeLuminance(hex: string): number {
+  const [r, g, b] = parseHex(hex).map(channel => {
+    const srgb = channel / 255;
+    return srgb <= 0.03928 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** 1 (no contrast) to 21 (black on white) - order of the two colors doesn't matter */
+export function contrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Thresholds for normal-size text; "AA Large" only passes for 18pt+ / 14pt bold
+export function contrastLevel(ratio: number): ContrastLevel {
+  if (ratio >= 7) return 'AAA';
+  if (ratio >= 4.5) return 'AA';
+  if (ratio >= 3) return 'AA Large';
+  return 'Fail';
+}
@@ -0,0 +1,99 @@
+/**
+ * File: src/lib/contact.ts
+ *
+ * Contact form types and validation
+ * Shared by the browser (instant feedback) and the server (the check that counts)
+ */
+
+import { field, validateValues } from './form';
+import type { ApiErrorBody } from './users';
+
+export interface ContactInput {
+  name: string;
+  email: string;
+  message: string;
+}
+
+export type ContactField = keyof ContactInput;
+
+export interface ContactSubmission extends ContactInput {
+  id: number;
+  /** ISO 8601 timestamp, set by the server */
+  submittedAt: string;
+}
+
+/** One message per invalid field */
+export type ContactFieldErrors = Partial<Record<ContactField, string>>;
+
+export type ContactValidation =
+  | { ok: true; data: ContactInput }
+  | { ok: false; fieldErrors: ContactFieldErrors };
+
+// What the server action hands back to the form
+export type ContactActionState =
+  | { status: 'idle' }
+  | { status: 'success'; submission: ContactSubmission }
+  | {
+      status: 'error';
+      fieldErrors: ContactFieldErrors;
+      /** Set when the problem isn't any one field, e.g. the store couldn't be written */
+      formError?: string;
+      /** What was submitted, so a no-JS re-render can refill the form */
+      values: ContactInput;
+    };
+
+/** 400 body from POST /api/contact - the usual error plus per-field messages */
+export interface ContactValidationErrorBody extends ApiErrorBody {
+  fieldErrors: ContactFieldErrors;
+}
+
+export const CONTACT_LIMITS = {
+  name: 100,
+  email: 254,
+  message: 5000,
+} as const satisfies Record<ContactField, number>;
+
+// Deliberately loose: something@something.tld - the only real test is sending mail
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** The rules for both sides - useForm runs them as you type, validateContact on the server */
+export const contactSchema = {
+  name: field.text({ label: 'Name', required: true, maxLength: CONTACT_LIMITS.name }),
+  email: field.text({
+    label: 'Email',
+    required: 'Valid email required',
+    maxLength: CONTACT_LIMITS.email,
+    pattern: EMAIL_PATTERN,
+    patternMessage: 'Valid email required',
+  }),
+  message: field.text({ label: 'Message', required: true, maxLength: CONTACT_LIMITS.message }),
+};
+
+export function isContactSubmission(value: unknown): value is ContactSubmission {
+  if (typeof value !== 'object' || value === null) return false;
+  const item = value as Record<string, unknown>;
+  // typeof 'number' would let NaN, Infinity and 1.5 through as ids
+  return Number.isSafeInteger(item.id)
+    && typeof item.name === 'string'
+    && typeof item.email === 'string'
+    && typeof item.message === 'string'
+    && typeof item.submittedAt === 'string';
+}
+
+/** Pull the three fields out of a posted form, as strings */
+export function contactInputFromFormData(formData: FormData): ContactInput {
+  const read = (name: ContactField) => {
+    const value = formData.get(name);
+    return typeof value === 'string' ? value : '';
+  };
+  return { name: read('name'), email: read('email'), message: read('message') };
+}
+
+export function validateContact(input: unknown): ContactValidation {
+  const raw = typeof input === 'object' && input !== null ? input as Record<string, unknown> : {};
+  const text = (name: ContactField) => (typeof raw[name] === 'string' ? (raw[name] as string).trim() : '');
+  const data: ContactInput = { name: text('name'), email: text('email'), message: text('message') };
+
+  const fieldErrors: ContactFieldErrors = validateValues(contactSchema, data);
+  return Object.keys(fieldErrors).length > 0 ? { ok: false, fieldErrors } : { ok: true, data };
+}
@@ -0,0 +1,156 @@
+/**
+ * File: src/lib/contactHistory.ts
+ *
+ * Searching, sorting and exporting the contact form's message history
+ * Pure helpers - the browser uses them for the history panel, the server for imports
+ */
+
+import type { ContactInput, ContactSubmission } from './contact';
+import { matchesAll, searchWords } from './search';
+
+export type ContactSort = 'newest' | 'oldest' | 'sender' | 'longest' | 'shortest';
+
+const byDate = (a: ContactSubmission, b: ContactSubmission) => Date.parse(a.submittedAt) - Date.parse(b.submittedAt);
+
+export const CONTACT_SORTS: Record<ContactSort, { label: string; compare: (a: ContactSubmission, b: ContactSubmission) => number }> = {
+  newest: { label: 'Newest first', compare: (a, b) => byDate(b, a) },
+  oldest: { label: 'Oldest first', compare: byDate },
+  sender: { label: 'Sender (A-Z)', compare: (a, b) => a.name.localeCompare(b.name) || byDate(b, a) },
+  longest: { label: 'Longest message', compare: (a, b) => b.message.length - a.message.length || byDate(b, a) },
+  shortest: { label: 'Shortest message', compare: (a, b) => a.message.length - b.message.length || byDate(b, a) },
+};
+
+export function isContactSort(value: string): value is ContactSort {
+  return Object.hasOwn(CONTACT_SORTS, value);
+}
+
+export interface ContactHistoryQuery {
+  /** Every word has to appear somewhere in the name, email or message */
+  search: string;
+  /** Only this sender's email, or '' for everyone */
+  sender: string;
+  sort: ContactSort;
+}
+
+export function queryHistory(submissions: ContactSubmission[], { search, sender, sort }: ContactHistoryQuery): ContactSubmission[] {
+  const words = searchWords(search);
+  return submissions
+    .filter(item => {
+      if (sender && item.email.toLowerCase() !== sender.toLowerCase()) return false;
+      return matchesAll(`${item.name}\n${item.email}\n${item.message}`, words);
+    })
+    .sort(CONTACT_SORTS[sort].compare);
+}
+
+export interface ContactSender {
+  email: string;
+  /** The name on their most recent message */
+  name: string;
+  count: number;
+}
+
+/** One entry per email address, alphabetical by name */
+export function listSenders(submissions: ContactSubmission[]): ContactSender[] {
+  const senders = new Map<string, ContactSender>();
+  for (const item of [...submissions].sort(CONTACT_SORTS.oldest.compare)) {
+    const email = item.email.toLowerCase();
+    senders.set(email, { email, name: item.name, count: (senders.get(email)?.count ?? 0) + 1 });
+  }
+  return [...senders.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// =====================================
+// EXPORT & IMPORT
+// =====================================
+
+export const CONTACT_HISTORY_VERSION = 1;
+
+/** What "Export JSON" writes and "Import JSON" reads back */
+export interface ContactHistoryFile {
+  version: typeof CONTACT_HISTORY_VERSION;
+  exportedAt: string;
+  submissions: ContactSubmission[];
+}
+
+/** A message to import - ids are handed out again by the store */
+export interface ImportedSubmission extends ContactInput {
+  submittedAt: string;
+}
+
+export function toHistoryFile(submissions: ContactSubmission[]): ContactHistoryFile {
+  return { version: CONTACT_HISTORY_VERSION, exportedAt: new Date().toISOString(), submissions };
+}
+
+// Quote every cell, and defuse cells a spreadsheet would run as a formula (=, +, -, @)
+function csvCell(value: string | number): string {
+  const text = String(value);
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function toCsv(submissions: ContactSubmission[]): string {
+  const header = ['id', 'submittedAt', 'name', 'email', 'message'];
+  const rows = submissions.map(item => [item.id, item.submittedAt, item.name, item.email, item.message].map(csvCell).join(','));
+  // CRLF line endings, as RFC 4180 asks
+  return [header.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Pull the messages out of an exported file (or a bare array of them)
+ * Entries without the right fields or a readable date are dropped, and dates come back as ISO.
+ * The contact rules themselves are checked by whoever stores them
+ * @returns null when it isn't a history file at all
+ */
+export function readHistoryFile(data: unknown): { entries: ImportedSubmission[]; dropped: number } | null {
+  const list = Array.isArray(data)
+    ? data
+    : typeof data === 'object' && data !== null && 'submissions' in data && Array.isArray(data.submissions)
+      ? data.submissions as unknown[]
+      : null;
+  if (!list) return null;
+
+  const entries: ImportedSubmission[] = [];
+  for (const item of list) {
+    if (typeof item !== 'object' || item === null) continue;
+    const { name, email, message, submittedAt } = item as Record<string, unknown>;
+    const time = typeof submittedAt === 'string' ? Date.parse(submittedAt) : NaN;
+    if (typeof name !== 'string' || typeof email !== 'string' || typeof message !== 'string' || Number.isNaN(time)) continue;
+    entries.push({ name, email, message, submittedAt: new Date(time).toISOString() });
+  }
+  return { entries, dropped: list.length - entries.length };
+}
+
+// =====================================
+// LEGACY BROWSER HISTORY
+// =====================================
+
+/** Where the history lived before it moved to the server: IndexedDB, written through useLocalStorage */
+export const LEGACY_HISTORY_KEY = 'contact-submissions';
+
+/**
+ * The old in-browser history as messages to import (see importContactHistory)
+ * Its timestamps came from toLocaleString(), so any this browser can't read back get `fallbackTime`
+ * @returns null when the stored value isn't a history at all
+ */
+export function readLegacyHistory(item: string, fallbackTime = new Date()): ImportedSubmission[] | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(item);
+  } catch {
+    return null;
+  }
+  // useLocalStorage wraps values as { __version, value }
+  const list = typeof data === 'object' && data !== null && 'value' in data ? data.value : data;
+  if (!Array.isArray(list)) return null;
+
+  const entries: ImportedSubmission[] = [];
+  for (const entry of list) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const { name, email, message, submittedAt } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || typeof email !== 'string' || typeof message !== 'string') continue;
+    const time = typeof submittedAt === 'string' ? Date.parse(submittedAt) : NaN;
+    const date = Number.isNaN(time) ? fallbackTime : new Date(time);
+    entries.push({ name, email, message, submittedAt: date.toISOString() });
+  }
+  return entries;
+}
@@ -0,0 +1,143 @@
+/**
+ * File: src/lib/contactStore.ts
+ *
+ * File-backed store for contact form submissions - a JSON file, no database needed
+ * Server-only: imported by the contact server actions and route handler
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { isContactSubmission } from './contact';
+import type { ContactInput, ContactSubmission } from './contact';
+import { CONTACT_SORTS } from './contactHistory';
+import type { ImportedSubmission } from './contactHistory';
+
+// Override with CONTACT_STORE_PATH; the default lives in the git-ignored .data folder
+const STORE_PATH = process.env.CONTACT_STORE_PATH ?? path.join(process.cwd(), '.data', 'contact-submissions.json');
+const CORRUPT_COPY_PATH = `${STORE_PATH}.corrupt`;
+
+// Oldest entries are dropped past this, so the file can't grow forever
+const MAX_SUBMISSIONS = 1000;
+
+async function readAll(): Promise<ContactSubmission[]> {
+  let text: string;
+  try {
+    text = await readFile(STORE_PATH, 'utf8');
+  } catch (error) {
+    // No file yet = no submissions yet
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    // A damaged file shouldn't take the whole page down - start over, but keep a copy to recover
+    // by hand, since the next save replaces the file
+    console.error(`Contact store ${STORE_PATH} is not valid JSON - starting empty, copy kept as ${CORRUPT_COPY_PATH}`, error);
+    await writeFile(CORRUPT_COPY_PATH, text, 'utf8').catch(() => {});
+    return [];
+  }
+  return Array.isArray(data) ? data.filter(isContactSubmission) : [];
+}
+
+// Write to a temp file and rename over the old one, so a crash mid-write
+// never leaves half a JSON file behind
+async function writeAll(submissions: ContactSubmission[]): Promise<void> {
+  await mkdir(path.dirname(STORE_PATH), { recursive: true });
+  const tempPath = `${STORE_PATH}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(submissions, null, 2), 'utf8');
+  await rename(tempPath, STORE_PATH);
+}
+
+// Every read-modify-write runs one at a time, so concurrent requests can't
+// both read the same file and overwrite each other's changes
+let queue: Promise<unknown> = Promise.resolve();
+
+function update<T>(change: (submissions: ContactSubmission[]) => { next: ContactSubmission[]; result: T }): Promise<T> {
+  const run = queue.then(async () => {
+    const { next, result } = change(await readAll());
+    await writeAll(next);
+    return result;
+  });
+  queue = run.catch(() => {}); // one failed write shouldn't block the ones after it
+  return run;
+}
+
+/** Newest first */
+export async function listSubmissions(): Promise<ContactSubmission[]> {
+  await queue;
+  return readAll();
+}
+
+export function addSubmission(input: ContactInput): Promise<ContactSubmission> {
+  return update(submissions => {
+    const submission: ContactSubmission = {
+      id: submissions.reduce((max, item) => Math.max(max, item.id), 0) + 1,
+      ...input,
+      submittedAt: new Date().toISOString(),
+    };
+    return { next: [submission, ...submissions].slice(0, MAX_SUBMISSIONS), result: submission };
+  });
+}
+
+// Same moment, sender and text = the same message, however many times it's imported
+const importKey = (item: ImportedSubmission) => `${item.submittedAt}|${item.email.toLowerCase()}|${item.message}`;
+
+/**
+ * Merge messages from an export file, keeping their original dates
+ * They get fresh ids, exact duplicates are skipped and the oldest overflow is dropped as usual
+ * @returns how many were added and how many were already there
+ */
+export function importSubmissions(entries: ImportedSubmission[]): Promise<{ added: number; duplicates: number }> {
+  return update(submissions => {
+    const seen = new Set(submissions.map(importKey));
+    let nextId = submissions.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+    const added: ContactSubmission[] = [];
+    for (const entry of entries) {
+      const key = importKey(entry);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      added.push({ id: nextId++, ...entry });
+    }
+    const next = [...added, ...submissions].sort(CONTACT_SORTS.newest.compare).slice(0, MAX_SUBMISSIONS);
+    const kept = new Set(next);
+    return {
+      next,
+      result: { added: added.filter(item => kept.has(item)).length, duplicates: entries.length - added.length },
+    };
+  });
+}
+
+/**
+ * Put deleted submissions back (undo), keeping their ids - unless a newer message has taken one
+ * Ones that are already back (a double undo) are skipped
+ * @returns how many were restored
+ */
+export function restoreSubmissions(items: ContactSubmission[]): Promise<number> {
+  return update(submissions => {
+    const byId = new Map(submissions.map(item => [item.id, item]));
+    const present = new Set(submissions.map(importKey));
+    let nextId = Math.max(0, ...submissions.map(item => item.id), ...items.map(item => item.id)) + 1;
+    const restored: ContactSubmission[] = [];
+    for (const item of items) {
+      if (present.has(importKey(item))) continue;
+      present.add(importKey(item));
+      restored.push(byId.has(item.id) ? { ...item, id: nextId++ } : item);
+    }
+    const next = [...restored, ...submissions].sort(CONTACT_SORTS.newest.compare).slice(0, MAX_SUBMISSIONS);
+    return { next, result: restored.length };
+  });
+}
+
+/** @returns whether a submission with that id existed */
+export function deleteSubmission(id: number): Promise<boolean> {
+  return update(submissions => {
+    const next = submissions.filter(item => item.id !== id);
+    return { next, result: next.length !== submissions.length };
+  });
+}
+
+export function clearSubmissions(): Promise<void> {
+  return update(() => ({ next: [], result: undefined }));
+}
@@ -0,0 +1,22 @@
+/**
+ * File: src/lib/dates.ts
+ *
+ * Calendar-date helpers - YYYY-MM-DD strings in the user's time zone
+ */
+
+// Today as YYYY-MM-DD in the user's time zone (toISOString would use UTC)
+export function localDate(date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** The `count` dates ending at `last`, oldest first - ['2026-10-13', ..., '2026-10-19'] */
+export function lastDays(last: string, count: number): string[] {
+  return Array.from({ length: count }, (_, index) => {
+    // Local midnight, so adding days never trips over a DST change
+    const date = new Date(`${last}T00:00`);
+    date.setDate(date.getDate() - (count - 1 - index));
+    return localDate(date);
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * File: src/lib/download.ts
+ *
+ * Save generated content as a file - no server round trip needed
+ */
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadJson(filename: string, data: unknown) {
+  downloadFile(filename, JSON.stringify(data, null, 2), 'application/json');
+}
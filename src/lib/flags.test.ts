@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateFlag, isFlagOverrides, parseFlagQuery, rolloutBucket } from './flags';
+
+describe('rolloutBucket', () => {
+  it('is plain FNV-1a of "flag:user" - changing it would move every user to a new bucket', () => {
+    // Reference values from an independent FNV-1a implementation
+    expect(rolloutBucket('profileAvatar', 'alice')).toBe(57);
+    expect(rolloutBucket('profileAvatar', 'bob')).toBe(58);
+    expect(rolloutBucket('compactProfile', 'alice')).toBe(53);
+  });
+
+  it('spreads users evenly over 0-99', () => {
+    const counts = new Array(10).fill(0);
+    for (let i = 0; i < 10_000; i++) counts[Math.floor(rolloutBucket('profileAvatar', `user-${i}`) / 10)]++;
+    for (const count of counts) {
+      expect(count).toBeGreaterThan(850);
+      expect(count).toBeLessThan(1150);
+    }
+  });
+});
+
+describe('evaluateFlag', () => {
+  const none = { userId: null, urlOverrides: {}, overrides: {} };
+
+  it('lets the URL beat a saved override, which beats the rollout', () => {
+    expect(evaluateFlag('profileAvatar', { ...none, userId: 'alice', urlOverrides: { profileAvatar: false }, overrides: { profileAvatar: true } }))
+      .toEqual({ enabled: false, source: 'url' });
+    expect(evaluateFlag('profileAvatar', { ...none, userId: 'alice', overrides: { profileAvatar: true } }))
+      .toEqual({ enabled: true, source: 'override' });
+    // alice is in bucket 57 - outside the 50% rollout
+    expect(evaluateFlag('profileAvatar', { ...none, userId: 'alice' })).toEqual({ enabled: false, source: 'rollout' });
+  });
+
+  it('uses the default until the user id is known', () => {
+    expect(evaluateFlag('profileAvatar', none)).toEqual({ enabled: false, source: 'default' });
+    expect(evaluateFlag('profileDetails', { ...none, userId: 'alice' })).toEqual({ enabled: true, source: 'default' });
+  });
+});
+
+describe('flag overrides from outside', () => {
+  it('parses ?flags= and ignores unknown or inherited names', () => {
+    expect(parseFlagQuery('profileAvatar, -retryCountdown,!compactProfile,nope,toString')).toEqual({
+      profileAvatar: true,
+      retryCountdown: false,
+      compactProfile: false,
+    });
+  });
+
+  it('validates stored overrides', () => {
+    expect(isFlagOverrides({ profileAvatar: true })).toBe(true);
+    expect(isFlagOverrides({ profileAvatar: 'yes' })).toBe(false);
+    expect(isFlagOverrides({ constructor: true })).toBe(false);
+    expect(isFlagOverrides([])).toBe(false);
+  });
+});
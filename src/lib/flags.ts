@@ -0,0 +1,111 @@
+/**
+ * File: src/lib/flags.ts
+ *
+ * Feature flag definitions and the rules that decide each flag's value
+ * Pure functions only - FeatureFlagContext wires them to storage and the URL
+ */
+
+export interface FlagDefinition {
+  description: string;
+  defaultValue: boolean;
+  /** Percentage (0-100) of users who get the flag turned on; overrides defaultValue */
+  rollout?: number;
+}
+
+// 🐍 Python: Like a dict literal whose keys become an Enum
+export const flagDefinitions = {
+  profileAvatar: {
+    description: 'Show an initials avatar on the user profile',
+    defaultValue: false,
+    rollout: 50,
+  },
+  profileDetails: {
+    description: 'Show role, location and join date on the user profile',
+    defaultValue: true,
+  },
+  retryCountdown: {
+    description: 'Count down to the next automatic retry when loading fails',
+    defaultValue: true,
+  },
+  compactProfile: {
+    description: 'Experimental compact profile layout',
+    defaultValue: false,
+    rollout: 10,
+  },
+} satisfies Record<string, FlagDefinition>;
+
+export type FlagName = keyof typeof flagDefinitions;
+
+export const flagNames = Object.keys(flagDefinitions) as FlagName[];
+
+/** Where a flag's current value came from, highest priority first */
+export type FlagSource = 'url' | 'override' | 'rollout' | 'default';
+
+export interface FlagState {
+  enabled: boolean;
+  source: FlagSource;
+}
+
+export type FlagOverrides = Partial<Record<FlagName, boolean>>;
+
+export const FLAG_OVERRIDES_STORAGE_KEY = 'tutorial-flag-overrides';
+export const FLAG_USER_ID_STORAGE_KEY = 'tutorial-user-id';
+/** ?flags=profileAvatar,-retryCountdown turns the first on and the second off */
+export const FLAG_QUERY_PARAM = 'flags';
+
+export function isFlagName(value: string): value is FlagName {
+  return Object.hasOwn(flagDefinitions, value);
+}
+
+export function isFlagOverrides(value: unknown): value is FlagOverrides {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.entries(value).every(([name, enabled]) => isFlagName(name) && typeof enabled === 'boolean');
+}
+
+// FNV-1a - tiny, fast and spreads similar strings evenly
+function hash(input: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    value ^= input.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/** Stable 0-99 bucket for a user, different per flag so rollouts don't all hit the same users */
+export function rolloutBucket(name: FlagName, userId: string): number {
+  return hash(`${name}:${userId}`) % 100;
+}
+
+/** Parse the value of ?flags=a,-b into overrides, ignoring unknown names */
+export function parseFlagQuery(raw: string): FlagOverrides {
+  const overrides: FlagOverrides = {};
+  for (const part of raw.split(',')) {
+    const name = part.trim().replace(/^[-!]/, '');
+    if (isFlagName(name)) {
+      overrides[name] = !/^\s*[-!]/.test(part);
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Decide one flag: URL beats a saved override, which beats the rollout, which beats the default
+ * Rollouts fall back to the default until the user id is known
+ */
+export function evaluateFlag(
+  name: FlagName,
+  { userId, urlOverrides, overrides }: { userId: string | null; urlOverrides: FlagOverrides; overrides: FlagOverrides }
+): FlagState {
+  const urlValue = urlOverrides[name];
+  if (urlValue !== undefined) return { enabled: urlValue, source: 'url' };
+
+  const override = overrides[name];
+  if (override !== undefined) return { enabled: override, source: 'override' };
+
+  const definition: FlagDefinition = flagDefinitions[name];
+  if (definition.rollout !== undefined && userId) {
+    return { enabled: rolloutBucket(name, userId) < definition.rollout, source: 'rollout' };
+  }
+  return { enabled: definition.defaultValue, source: 'default' };
+}
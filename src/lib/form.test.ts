@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { validateContact } from './contact';
+import { defaultValues, field, getAt, group, list, nodeAt, setAt, validateValues } from './form';
+
+const schema = {
+  teamName: field.text({ label: 'Team name', required: true, minLength: 3, pattern: /^[a-z-]+$/ }),
+  owner: group({
+    email: field.text({ label: 'Email', required: 'Email please', pattern: /@/, patternMessage: 'Not an email' }),
+  }),
+  members: list(group({ name: field.text({ label: 'Name', required: true }) }), { minItems: 1, maxItems: 2 }),
+  acceptTerms: field.checkbox({ required: 'Accept the terms' }),
+};
+
+describe('form schema', () => {
+  it('builds defaults, including the minimum list items', () => {
+    expect(defaultValues(schema)).toEqual({
+      teamName: '',
+      owner: { email: '' },
+      members: [{ name: '' }],
+      acceptTerms: false,
+    });
+  });
+
+  it('reports every failing rule by dot path', () => {
+    expect(validateValues(schema, defaultValues(schema))).toEqual({
+      teamName: 'Team name is required',
+      'owner.email': 'Email please',
+      'members.0.name': 'Name is required',
+      acceptTerms: 'Accept the terms',
+    });
+  });
+
+  it('checks lengths, patterns and list sizes', () => {
+    const values = {
+      teamName: 'ab',
+      owner: { email: 'nope' },
+      members: [{ name: 'a' }, { name: 'b' }, { name: 'c' }],
+      acceptTerms: true,
+    };
+    expect(validateValues(schema, values)).toEqual({
+      teamName: 'Team name must be at least 3 characters',
+      'owner.email': 'Not an email',
+      members: 'No more than 2 entries',
+    });
+  });
+
+  it('passes valid values, trimming before it measures', () => {
+    const values = { teamName: '  abc  ', owner: { email: 'a@b' }, members: [{ name: 'Ann' }], acceptTerms: true };
+    expect(validateValues(schema, values)).toEqual({});
+  });
+
+  it('reads and writes by path without mutating', () => {
+    const values = defaultValues(schema);
+    const next = setAt(values, 'members.0.name', 'Ann');
+
+    expect(getAt(next, 'members.0.name')).toBe('Ann');
+    expect(values.members[0].name).toBe('');
+    expect(nodeAt(schema, 'members.5.name')).toBe(schema.members.item.fields.name);
+    expect(nodeAt(schema, 'owner.missing')).toBeUndefined();
+  });
+});
+
+describe('validateContact', () => {
+  it('runs the same schema on the server, on trimmed values', () => {
+    expect(validateContact({ name: ' Ann ', email: 'ann@example.com', message: 'Hi' })).toEqual({
+      ok: true,
+      data: { name: 'Ann', email: 'ann@example.com', message: 'Hi' },
+    });
+  });
+
+  it('rejects missing and non-string fields', () => {
+    expect(validateContact({ name: 42, email: 'nope' })).toEqual({
+      ok: false,
+      fieldErrors: { name: 'Name is required', email: 'Valid email required', message: 'Message is required' },
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * File: src/lib/form.ts
+ *
+ * Form schemas - describe the fields once, get value types, defaults and validation from it
+ * Pure and framework-free, so the server can validate with the same schema.
+ * The React side lives in hooks/useForm.ts
+ */
+
+// =====================================
+// SCHEMA
+// =====================================
+
+interface FieldRules<V> {
+  /** Used in the default error messages, e.g. "Name is required" */
+  label?: string;
+  /** true for the default message, or the message itself */
+  required?: boolean | string;
+  /** Custom check - return an error message, or undefined when the value is fine */
+  validate?: (value: V) => string | undefined;
+  /**
+   * Slow checks such as "is this name taken?" - only run once every other rule passes.
+   * Abort the work when `signal` fires; a newer check has replaced it
+   */
+  validateAsync?: (value: V, signal: AbortSignal) => Promise<string | undefined>;
+}
+
+interface TextRules extends FieldRules<string> {
+  /** Lengths count the trimmed value, like the server does */
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  /** Shown when `pattern` doesn't match (defaults to "<label> is invalid") */
+  patternMessage?: string;
+}
+
+export interface TextField extends TextRules {
+  kind: 'text';
+  initial: string;
+}
+
+export interface CheckboxField extends FieldRules<boolean> {
+  kind: 'checkbox';
+  initial: boolean;
+}
+
+export type FieldNode = TextField | CheckboxField;
+
+/** A nested object of fields, e.g. an address */
+export interface GroupNode<S extends FormSchema = FormSchema> {
+  kind: 'group';
+  fields: S;
+}
+
+interface ListOptions {
+  minItems?: number;
+  maxItems?: number;
+  /** Rows to start with (defaults to minItems, or 0) */
+  initialItems?: number;
+}
+
+/** A repeatable row - a field, or a whole group per item */
+export interface ListNode<I extends SchemaNode = SchemaNode> extends ListOptions {
+  kind: 'list';
+  item: I;
+}
+
+export type SchemaNode = FieldNode | GroupNode | ListNode;
+
+export interface FormSchema {
+  [name: string]: SchemaNode;
+}
+
+// 🐍 Python: like pydantic's Field(...) - the builders fill in kind and defaults
+export const field = {
+  text: (rules: TextRules & { initial?: string } = {}): TextField => ({ kind: 'text', initial: '', ...rules }),
+  checkbox: (rules: FieldRules<boolean> & { initial?: boolean } = {}): CheckboxField => ({ kind: 'checkbox', initial: false, ...rules }),
+};
+
+export function group<S extends FormSchema>(fields: S): GroupNode<S> {
+  return { kind: 'group', fields };
+}
+
+export function list<I extends SchemaNode>(item: I, options: ListOptions = {}): ListNode<I> {
+  return { kind: 'list', item, ...options };
+}
+
+// =====================================
+// TYPES INFERRED FROM A SCHEMA
+// =====================================
+
+export type InferNode<N> =
+  N extends TextField ? string
+  : N extends CheckboxField ? boolean
+  : N extends GroupNode<infer S> ? InferValues<S>
+  : N extends ListNode<infer I> ? InferNode<I>[]
+  : never;
+
+/** The values object a schema describes - `{ name: field.text() }` gives `{ name: string }` */
+export type InferValues<S extends FormSchema> = { [K in keyof S]: InferNode<S[K]> };
+
+/** Every dot path into `T`, list indexes included - 'owner.email', 'members.0.name' */
+export type FieldPath<T> =
+  T extends readonly (infer I)[] ? `${number}` | `${number}.${FieldPath<I>}`
+  : T extends object ? { [K in keyof T & string]: K | `${K}.${FieldPath<T[K]>}` }[keyof T & string]
+  : never;
+
+/** Error messages keyed by dot path */
+export type FormErrors = Partial<Record<string, string>>;
+
+// =====================================
+// PATHS
+// =====================================
+
+function splitPath(path: string): string[] {
+  return path === '' ? [] : path.split('.');
+}
+
+export function joinPath(parent: string, key: string | number): string {
+  return parent === '' ? String(key) : `${parent}.${key}`;
+}
+
+export function getAt(source: unknown, path: string): unknown {
+  return splitPath(path).reduce<unknown>(
+    (current, key) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined),
+    source,
+  );
+}
+
+/** Copy of `source` with the value at `path` replaced - only the objects along the path are copied */
+export function setAt<T>(source: T, path: string, value: unknown): T {
+  const [key, ...rest] = splitPath(path);
+  if (key === undefined) return value as T;
+  if (Array.isArray(source)) {
+    const copy = [...source];
+    copy[Number(key)] = setAt(copy[Number(key)], rest.join('.'), value);
+    return copy as T;
+  }
+  const record = (source ?? {}) as Record<string, unknown>;
+  return { ...record, [key]: setAt(record[key], rest.join('.'), value) } as T;
+}
+
+/** The schema node a path points at - list indexes all share the list's item node */
+export function nodeAt(schema: FormSchema, path: string): SchemaNode | undefined {
+  let node: SchemaNode | undefined = group(schema);
+  for (const key of splitPath(path)) {
+    if (node?.kind === 'group') node = node.fields[key];
+    else if (node?.kind === 'list' && /^\d+$/.test(key)) node = node.item;
+    else return undefined;
+  }
+  return node;
+}
+
+type Visitor = (path: string, node: FieldNode | ListNode, value: unknown) => void;
+
+/** Visit every field and list under `node` in document order (a list comes before its items) */
+export function walkNode(node: SchemaNode, value: unknown, path: string, visit: Visitor): void {
+  if (node.kind === 'group') {
+    for (const [key, child] of Object.entries(node.fields)) walkNode(child, getAt(value, key), joinPath(path, key), visit);
+    return;
+  }
+  visit(path, node, value);
+  if (node.kind === 'list' && Array.isArray(value)) {
+    value.forEach((item, index) => walkNode(node.item, item, joinPath(path, index), visit));
+  }
+}
+
+export function walkSchema(schema: FormSchema, values: unknown, visit: Visitor): void {
+  walkNode(group(schema), values, '', visit);
+}
+
+// =====================================
+// DEFAULTS & VALIDATION
+// =====================================
+
+export function defaultValue<N extends SchemaNode>(node: N): InferNode<N>;
+export function defaultValue(node: SchemaNode): unknown {
+  switch (node.kind) {
+    case 'text':
+    case 'checkbox':
+      return node.initial;
+    case 'group':
+      return Object.fromEntries(Object.entries(node.fields).map(([key, child]) => [key, defaultValue(child)]));
+    case 'list':
+      return Array.from({ length: node.initialItems ?? node.minItems ?? 0 }, () => defaultValue(node.item));
+  }
+}
+
+export function defaultValues<S extends FormSchema>(schema: S): InferValues<S> {
+  return defaultValue(group(schema)) as InferValues<S>;
+}
+
+/** The synchronous rules for one field or list - undefined when it passes */
+export function validateNode(node: FieldNode | ListNode, value: unknown): string | undefined {
+  if (node.kind === 'list') {
+    const count = Array.isArray(value) ? value.length : 0;
+    if (node.minItems !== undefined && count < node.minItems) {
+      return `Add at least ${node.minItems} ${node.minItems === 1 ? 'entry' : 'entries'}`;
+    }
+    if (node.maxItems !== undefined && count > node.maxItems) {
+      return `No more than ${node.maxItems} ${node.maxItems === 1 ? 'entry' : 'entries'}`;
+    }
+    return undefined;
+  }
+
+  const label = node.label ?? 'This field';
+  const requiredMessage = typeof node.required === 'string' ? node.required : `${label} is required`;
+
+  if (node.kind === 'checkbox') {
+    const checked = value === true;
+    if (node.required && !checked) return requiredMessage;
+    return node.validate?.(checked);
+  }
+
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) return node.required ? requiredMessage : undefined; // optional and empty: nothing else to check
+  if (node.minLength !== undefined && text.length < node.minLength) {
+    return `${label} must be at least ${node.minLength} characters`;
+  }
+  if (node.maxLength !== undefined && text.length > node.maxLength) {
+    return `${label} must be at most ${node.maxLength} characters`;
+  }
+  if (node.pattern && !node.pattern.test(text)) return node.patternMessage ?? `${label} is invalid`;
+  return node.validate?.(text);
+}
+
+/** Run every synchronous rule in the schema - async validators are left to the caller */
+export function validateValues(schema: FormSchema, values: unknown): FormErrors {
+  const errors: FormErrors = {};
+  walkSchema(schema, values, (path, node, value) => {
+    const error = validateNode(node, value);
+    if (error) errors[path] = error;
+  });
+  return errors;
+}
+
+/** The field's async validator bound to its current value, or undefined if it has none */
+export function asyncCheckFor(node: FieldNode, value: unknown): ((signal: AbortSignal) => Promise<string | undefined>) | undefined {
+  if (node.kind === 'checkbox') {
+    const check = node.validateAsync;
+    return check && (signal => check(value === true, signal));
+  }
+  const check = node.validateAsync;
+  const text = typeof value === 'string' ? value.trim() : '';
+  return check && (signal => check(text, signal));
+}
@@ -0,0 +1,15 @@
+/**
+ * File: src/lib/id.ts
+ *
+ * Collision-free ids for client-created records
+ * "max id + 1" breaks as soon as two tabs add an item at the same time
+ */
+
+/** Random unique id, e.g. for a new todo or note */
+export function createId(): string {
+  // randomUUID needs a secure context - plain http on a LAN address doesn't have one
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToText, parseInline, parseMarkdown } from './markdown';
+
+const text = (value: string) => ({ type: 'text', text: value });
+
+describe('parseInline', () => {
+  it('parses code, bold, italic and links', () => {
+    expect(parseInline('a `b` **c** *d* _e_ [f](https://example.com)')).toEqual([
+      text('a '),
+      { type: 'code', text: 'b' },
+      text(' '),
+      { type: 'strong', children: [text('c')] },
+      text(' '),
+      { type: 'em', children: [text('d')] },
+      text(' '),
+      { type: 'em', children: [text('e')] },
+      text(' '),
+      { type: 'link', href: 'https://example.com', children: [text('f')] },
+    ]);
+  });
+
+  it('nests emphasis inside bold', () => {
+    expect(parseInline('**very _nested_**')).toEqual([
+      { type: 'strong', children: [text('very '), { type: 'em', children: [text('nested')] }] },
+    ]);
+  });
+
+  it('keeps the text of unsafe links but drops the URL', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([
+      { type: 'link', href: null, children: [text('click')] },
+      text(')'),
+    ]);
+    expect(parseInline('[mail](mailto:a@b.c)')[0]).toMatchObject({ href: 'mailto:a@b.c' });
+  });
+
+  it('leaves HTML as plain text', () => {
+    expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([text('<img src=x onerror=alert(1)>')]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits a note into blocks', () => {
+    const source = ['# Title', '', 'One line', 'two lines', '- a', '* b', '1. first', '2) second', '> quoted', '```', '**not bold**', '```'].join('\n');
+
+    expect(parseMarkdown(source)).toEqual([
+      { type: 'heading', level: 1, children: [text('Title')] },
+      { type: 'paragraph', lines: [[text('One line')], [text('two lines')]] },
+      { type: 'list', ordered: false, items: [[text('a')], [text('b')]] },
+      { type: 'list', ordered: true, items: [[text('first')], [text('second')]] },
+      { type: 'quote', lines: [[text('quoted')]] },
+      { type: 'code', text: '**not bold**' },
+    ]);
+  });
+
+  it('only treats one to three hashes as a heading', () => {
+    expect(parseMarkdown('### Three')[0]).toMatchObject({ type: 'heading', level: 3 });
+    expect(parseMarkdown('#### Four')[0]).toMatchObject({ type: 'paragraph' });
+    expect(parseMarkdown('#hashtag')[0]).toMatchObject({ type: 'paragraph' });
+  });
+
+  it('runs an unclosed code fence to the end of the note', () => {
+    expect(parseMarkdown('```\nconst a = 1;\n\nconst b = 2;')).toEqual([
+      { type: 'code', text: 'const a = 1;\n\nconst b = 2;' },
+    ]);
+  });
+
+  it('accepts Windows line endings', () => {
+    expect(parseMarkdown('- a\r\n- b')).toEqual([{ type: 'list', ordered: false, items: [[text('a')], [text('b')]] }]);
+  });
+
+  it('returns no blocks for an empty note', () => {
+    expect(parseMarkdown('')).toEqual([]);
+    expect(parseMarkdown('\n  \n')).toEqual([]);
+  });
+});
+
+describe('markdownToText', () => {
+  it('strips the markup', () => {
+    expect(markdownToText('# **Shopping**\n- [milk](https://shop.example) \n- `eggs`')).toBe('Shopping milk  eggs');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * File: src/lib/markdown.ts
+ *
+ * A small Markdown parser for notes - headings, lists, quotes, code,
+ * **bold**, *italic*, `code` and [links](https://...)
+ * It produces a tree, not an HTML string: components/Markdown.tsx turns the
+ * tree into React elements, so HTML typed into a note is only ever shown as text
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em'; children: MarkdownInline[] }
+  /** `href` is null when the URL wasn't safe - the text still shows, just unlinked */
+  | { type: 'link'; href: string | null; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; lines: MarkdownInline[][] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; lines: MarkdownInline[][] }
+  | { type: 'code'; text: string };
+
+// Only links that can't run script - javascript:, data: and friends are dropped
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+// One alternative per inline construct, tried left to right
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*]+)\*|_([^_]+)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export function parseInline(source: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+  for (const found of source.matchAll(INLINE_PATTERN)) {
+    const start = found.index ?? 0;
+    if (start > last) nodes.push({ type: 'text', text: source.slice(last, start) });
+    const [, code, strong, star, underscore, label, url] = found;
+    if (code !== undefined) nodes.push({ type: 'code', text: code });
+    else if (strong !== undefined) nodes.push({ type: 'strong', children: parseInline(strong) });
+    else if (star !== undefined || underscore !== undefined) nodes.push({ type: 'em', children: parseInline(star ?? underscore) });
+    else nodes.push({ type: 'link', href: SAFE_URL.test(url) ? url : null, children: parseInline(label) });
+    last = start + found[0].length;
+  }
+  if (last < source.length) nodes.push({ type: 'text', text: source.slice(last) });
+  return nodes;
+}
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+
+// 🐍 Python: a hand-rolled line-by-line state machine, like parsing a config file
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  // Collect consecutive lines matching `pattern`, returning each one's captured text
+  const takeWhile = (pattern: RegExp) => {
+    const taken: string[] = [];
+    let match: RegExpMatchArray | null;
+    while (index < lines.length && (match = lines[index].match(pattern))) {
+      taken.push(match[1]);
+      index++;
+    }
+    return taken;
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index++;
+    } else if (FENCE.test(line)) {
+      index++;
+      const code: string[] = [];
+      while (index < lines.length && !FENCE.test(lines[index])) code.push(lines[index++]);
+      index++; // closing fence (or the end of the note)
+      blocks.push({ type: 'code', text: code.join('\n') });
+    } else if (HEADING.test(line)) {
+      const [, hashes, text] = line.match(HEADING)!;
+      blocks.push({ type: 'heading', level: hashes.length as 1 | 2 | 3, children: parseInline(text) });
+      index++;
+    } else if (BULLET.test(line)) {
+      blocks.push({ type: 'list', ordered: false, items: takeWhile(BULLET).map(parseInline) });
+    } else if (NUMBERED.test(line)) {
+      blocks.push({ type: 'list', ordered: true, items: takeWhile(NUMBERED).map(parseInline) });
+    } else if (QUOTE.test(line)) {
+      blocks.push({ type: 'quote', lines: takeWhile(QUOTE).map(parseInline) });
+    } else {
+      // A paragraph runs until a blank line or the start of another block
+      const text: string[] = [];
+      while (
+        index < lines.length
+        && lines[index].trim() !== ''
+        && ![FENCE, HEADING, BULLET, NUMBERED, QUOTE].some(pattern => pattern.test(lines[index]))
+      ) {
+        text.push(lines[index++]);
+      }
+      blocks.push({ type: 'paragraph', lines: text.map(parseInline) });
+    }
+  }
+  return blocks;
+}
+
+/** The note as plain text - for labels, announcements and the like */
+export function markdownToText(source: string): string {
+  const inlineText = (nodes: MarkdownInline[]): string => nodes
+    .map(node => ('children' in node ? inlineText(node.children) : node.text))
+    .join('');
+  return parseMarkdown(source)
+    .map(block => {
+      switch (block.type) {
+        case 'code': return block.text;
+        case 'heading': return inlineText(block.children);
+        case 'list': return block.items.map(inlineText).join(' ');
+        default: return block.lines.map(inlineText).join(' ');
+      }
+    })
+    .join(' ');
+}
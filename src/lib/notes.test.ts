@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { trimOldestNotes } from './notes';
+import type { Note } from './notes';
+
+const note = (id: string, createdAt: string | null, pinned = false): Note => ({
+  id,
+  text: id,
+  tags: [],
+  createdAt,
+  updatedAt: createdAt,
+  pinned,
+});
+
+const ids = (notes: Note[] | null) => notes?.map(item => item.id) ?? null;
+
+describe('trimOldestNotes', () => {
+  it('drops the oldest created notes, wherever they were dragged to', () => {
+    const notes = [
+      note('march', '2026-03-01T00:00:00Z'),
+      note('january', '2026-01-01T00:00:00Z'),
+      note('april', '2026-04-01T00:00:00Z'),
+      note('february', '2026-02-01T00:00:00Z'),
+    ];
+
+    expect(ids(trimOldestNotes(2)(notes))).toEqual(['march', 'april']);
+  });
+
+  it('drops one more per retry once within the count', () => {
+    const notes = [note('new', '2026-02-01T00:00:00Z'), note('old', '2026-01-01T00:00:00Z'), note('newest', '2026-03-01T00:00:00Z')];
+
+    expect(ids(trimOldestNotes(10)(notes))).toEqual(['new', 'newest']);
+  });
+
+  it('treats notes without a timestamp as the oldest, in their stored order', () => {
+    const notes = [note('dated', '2026-01-01T00:00:00Z'), note('legacy-0', null), note('legacy-1', null), note('latest', '2026-02-01T00:00:00Z')];
+
+    expect(ids(trimOldestNotes(2)(notes))).toEqual(['dated', 'latest']);
+  });
+
+  it('never drops pinned notes or the newest one', () => {
+    const notes = [note('pinned', '2020-01-01T00:00:00Z', true), note('old', '2026-01-01T00:00:00Z'), note('newest', '2026-02-01T00:00:00Z')];
+
+    expect(ids(trimOldestNotes(0)(notes))).toEqual(['pinned', 'newest']);
+    expect(trimOldestNotes(0)([notes[0], notes[2]])).toBeNull();
+  });
+});
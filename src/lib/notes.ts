@@ -0,0 +1,137 @@
+/**
+ * File: src/lib/notes.ts
+ *
+ * Notes model for the Smart Notes widget - the stored shape, its migrations,
+ * tags, search and the numbers behind the stats panel
+ */
+
+import { lastDays, localDate } from './dates';
+import { matchesAll } from './search';
+
+export interface Note {
+  id: string;
+  /** Markdown source */
+  text: string;
+  /** Lowercase, without the '#', no duplicates */
+  tags: string[];
+  /** ISO timestamps - null for notes saved before they were tracked */
+  createdAt: string | null;
+  updatedAt: string | null;
+  pinned: boolean;
+}
+
+export const NOTES_STORAGE_KEY = 'tutorial-notes';
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+const isTimestamp = (value: unknown) => value === null || (typeof value === 'string' && !Number.isNaN(Date.parse(value)));
+
+export function isNoteList(value: unknown): value is Note[] {
+  return Array.isArray(value) && value.every(item =>
+    typeof item === 'object' && item !== null
+    && typeof item.id === 'string'
+    && typeof item.text === 'string'
+    && isStringArray(item.tags)
+    && isTimestamp(item.createdAt)
+    && isTimestamp(item.updatedAt)
+    && typeof item.pinned === 'boolean'
+  );
+}
+
+// v0 stored bare strings; v1 gave each note an id so rows have stable keys;
+// v2 adds tags, timestamps and pinning.
+// Migrations run on every read until the next save, so they must be deterministic -
+// hence index-based ids and null (not "now") for the unknown timestamps
+export const NOTES_VERSION = 2;
+export const notesMigrations = [
+  (value: unknown) => (isStringArray(value) ? value.map((text, index) => ({ id: `legacy-${index}`, text })) : value),
+  (value: unknown) => (Array.isArray(value)
+    ? value.map(item => ({ tags: [], createdAt: null, updatedAt: null, pinned: false, ...item }))
+    : value),
+];
+
+/** "#React, hooks  css" -> ['react', 'hooks', 'css'] */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[\s,]+/)
+    .map(tag => tag.replace(/^#+/, '').toLowerCase().replace(/[^\p{L}\p{N}_-]/gu, '').slice(0, 30))
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export function createNote(id: string, text: string, tags: string[], now = new Date()): Note {
+  const timestamp = now.toISOString();
+  return { id, text, tags, createdAt: timestamp, updatedAt: timestamp, pinned: false };
+}
+
+/** Search words must all appear in the text or tags; `tag` (if set) must be one of its tags */
+export function matchesNote(note: Note, words: string[], tag: string | null): boolean {
+  if (tag !== null && !note.tags.includes(tag)) return false;
+  return matchesAll(`${note.text}\n${note.tags.join(' ')}`, words);
+}
+
+/** Pinned notes first - otherwise the order the user arranged */
+export function pinnedFirst(notes: Note[]): Note[] {
+  return [...notes.filter(note => note.pinned), ...notes.filter(note => !note.pinned)];
+}
+
+// Notes saved before timestamps existed count as the oldest, in their stored order
+const createdTime = (note: Note) => (note.createdAt ? Date.parse(note.createdAt) : -Infinity);
+
+/**
+ * Trim policy for useLocalStorage: keep at most `count` notes, then drop one more per retry -
+ * oldest created first. Notes can be dragged around, so array position says nothing about age.
+ * Pinned notes and the newest note (usually the one just added) are never dropped
+ */
+export function trimOldestNotes(count: number) {
+  return (notes: Note[]): Note[] | null => {
+    const candidates = notes
+      .map((note, index) => ({ note, index }))
+      .filter(({ note }) => !note.pinned)
+      .sort((a, b) => createdTime(a.note) - createdTime(b.note) || a.index - b.index)
+      .slice(0, -1);
+    if (candidates.length === 0) return null;
+    const dropCount = Math.min(candidates.length, Math.max(1, notes.length - count));
+    const dropped = new Set(candidates.slice(0, dropCount).map(({ note }) => note.id));
+    return notes.filter(note => !dropped.has(note.id));
+  };
+}
+
+/** Every tag in use, most used first (ties alphabetical) */
+export function countTags(notes: Note[]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const note of notes) {
+    for (const tag of note.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export interface DayActivity {
+  /** YYYY-MM-DD, local time */
+  day: string;
+  created: number;
+  /** Notes last edited that day (after the day they were created) */
+  edited: number;
+}
+
+/** Notes created and edited per day, for the `days` days ending `today` (oldest first) */
+export function activityByDay(notes: Note[], today: string, days = 7): DayActivity[] {
+  const activity = new Map(lastDays(today, days).map(day => [day, { day, created: 0, edited: 0 }]));
+  for (const note of notes) {
+    const created = note.createdAt ? localDate(new Date(note.createdAt)) : null;
+    const updated = note.updatedAt ? localDate(new Date(note.updatedAt)) : null;
+    if (created) {
+      const entry = activity.get(created);
+      if (entry) entry.created += 1;
+    }
+    if (updated && updated !== created) {
+      const entry = activity.get(updated);
+      if (entry) entry.edited += 1;
+    }
+  }
+  return [...activity.values()];
+}
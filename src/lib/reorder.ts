@@ -0,0 +1,23 @@
+/**
+ * File: src/lib/reorder.ts
+ *
+ * Pure helpers for reordering lists
+ */
+
+/** Copy of `list` with the item at `from` moved to `to` */
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+/**
+ * Write a reordered subset (e.g. a filtered view) back into the full list
+ * The subset's items take over the slots they occupied before; every other item stays put
+ */
+export function applyOrder<T>(all: T[], orderedSubset: T[], getKey: (item: T) => string): T[] {
+  const subsetKeys = new Set(orderedSubset.map(getKey));
+  let next = 0;
+  return all.map(item => (subsetKeys.has(getKey(item)) ? orderedSubset[next++] : item));
+}
@@ -0,0 +1,40 @@
+/**
+ * File: src/lib/search.ts
+ *
+ * Tiny full-text search: every word of the query has to appear, in any order, any case
+ */
+
+/** Lowercase words of a search box value - '' gives [] (matches everything) */
+export function searchWords(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+export function matchesAll(haystack: string, words: string[]): boolean {
+  const text = haystack.toLowerCase();
+  return words.every(word => text.includes(word));
+}
+
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+/** Split text into matching and non-matching runs, for <mark> highlighting */
+export function splitMatches(text: string, words: string[]): TextPart[] {
+  if (words.length === 0 || text === '') return [{ text, match: false }];
+  // Longest first, so "react" wins over "re" where both match
+  const pattern = new RegExp(
+    [...words].sort((a, b) => b.length - a.length).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'),
+    'gi'
+  );
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const found of text.matchAll(pattern)) {
+    const start = found.index ?? 0;
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: found[0], match: true });
+    last = start + found[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
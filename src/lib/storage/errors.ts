@@ -0,0 +1,45 @@
+/**
+ * File: src/lib/storage/errors.ts
+ *
+ * Typed storage failures
+ * Browsers report a full quota in different ways - normalize them here so
+ * callers can branch on `instanceof StorageQuotaError`
+ */
+
+export class StorageQuotaError extends Error {
+  constructor(
+    public readonly key: string,
+    /** Size of the write that didn't fit */
+    public readonly bytes: number,
+    /** Set when a per-key budget (maxBytes) was hit rather than the browser quota */
+    public readonly limit?: number,
+    public readonly cause?: unknown
+  ) {
+    super(
+      limit !== undefined
+        ? `"${key}" needs ${bytes} bytes, over its ${limit} byte budget`
+        : `Storage quota exceeded while saving "${key}" (${bytes} bytes)`
+    );
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  if (error instanceof StorageQuotaError) return true;
+  if (typeof DOMException === 'undefined' || !(error instanceof DOMException)) return false;
+  return (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || // Firefox
+    error.code === 22 // Old WebKit
+  );
+}
+
+/** Approximate bytes a key/value pair occupies - browsers store strings as UTF-16 */
+export function measureBytes(key: string, item: string): number {
+  return (key.length + item.length) * 2;
+}
+
+/** 512 -> "512 B", 2048 -> "2.0 KB" */
+export function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
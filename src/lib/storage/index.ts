@@ -0,0 +1,14 @@
+/**
+ * File: src/lib/storage/index.ts
+ *
+ * Pluggable storage backends for useLocalStorage
+ */
+
+export type { StorageAdapter, SyncStorageAdapter, AsyncStorageAdapter, Serializer } from './types';
+export { createWebStorageAdapter, localStorageAdapter, sessionStorageAdapter } from './webStorage';
+export type { WebStorageArea } from './webStorage';
+export { createMemoryStorage } from './memory';
+export { createIndexedDBStorage, indexedDBStorage } from './indexedDB';
+export type { IndexedDBStorageOptions } from './indexedDB';
+export { jsonSerializer, richJsonSerializer } from './serializers';
+export { StorageQuotaError, formatBytes, isQuotaExceededError, measureBytes } from './errors';
@@ -0,0 +1,106 @@
+/**
+ * File: src/lib/storage/indexedDB.ts
+ *
+ * IndexedDB storage adapter
+ * For data too big for localStorage's ~5MB budget. Changes are broadcast to
+ * other tabs with a BroadcastChannel
+ */
+
+import type { AsyncStorageAdapter } from './types';
+
+export interface IndexedDBStorageOptions {
+  databaseName?: string;
+  /** Each database holds a single key/value object store */
+  storeName?: string;
+}
+
+interface ChangeMessage {
+  key: string;
+}
+
+export function createIndexedDBStorage({
+  databaseName = 'react-mastery',
+  storeName = 'keyval',
+}: IndexedDBStorageOptions = {}): AsyncStorageAdapter {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+  let channel: BroadcastChannel | null = null;
+  const listeners = new Map<string, Set<() => void>>();
+
+  // Opened on first use, so creating the adapter during SSR is free
+  const openDatabase = () => {
+    databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null; // allow a retry on the next call
+        reject(request.error);
+      };
+    });
+    return databasePromise;
+  };
+
+  async function run<R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+    const database = await openDatabase();
+    return new Promise<R>((resolve, reject) => {
+      const transaction = database.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      // Resolve on commit, not on request success - only then is the write durable
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  const notifyLocal = (key: string) => {
+    listeners.get(key)?.forEach(listener => listener());
+  };
+
+  const getChannel = () => {
+    if (!channel && typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(`indexeddb:${databaseName}/${storeName}`);
+      channel.onmessage = (event: MessageEvent<ChangeMessage>) => notifyLocal(event.data.key);
+    }
+    return channel;
+  };
+
+  const notify = (key: string) => {
+    notifyLocal(key);
+    getChannel()?.postMessage({ key } satisfies ChangeMessage);
+  };
+
+  return {
+    kind: 'async',
+    name: 'indexedDB',
+    getItem: async (key) => {
+      const result = await run<unknown>('readonly', store => store.get(key));
+      return typeof result === 'string' ? result : null;
+    },
+    setItem: async (key, value) => {
+      await run('readwrite', store => store.put(value, key));
+      notify(key);
+    },
+    removeItem: async (key) => {
+      await run('readwrite', store => store.delete(key));
+      notify(key);
+    },
+    keys: async () => {
+      const keys = await run('readonly', store => store.getAllKeys());
+      // setItem only writes string keys, but another writer might not have
+      return keys.filter((key): key is string => typeof key === 'string');
+    },
+    subscribe: (key, onChange) => {
+      getChannel();
+      const keyListeners = listeners.get(key) ?? new Set();
+      keyListeners.add(onChange);
+      listeners.set(key, keyListeners);
+      return () => {
+        keyListeners.delete(onChange);
+      };
+    },
+  };
+}
+
+export const indexedDBStorage = createIndexedDBStorage();
@@ -0,0 +1,41 @@
+/**
+ * File: src/lib/storage/memory.ts
+ *
+ * In-memory storage adapter
+ * Nothing survives a reload - handy for tests, SSR and demos
+ */
+
+import type { SyncStorageAdapter } from './types';
+
+export function createMemoryStorage(seed: Record<string, string> = {}): SyncStorageAdapter {
+  // 🐍 Python: Like a plain dict plus a list of callbacks per key
+  const items = new Map(Object.entries(seed));
+  const listeners = new Map<string, Set<() => void>>();
+
+  const notify = (key: string) => {
+    listeners.get(key)?.forEach(listener => listener());
+  };
+
+  return {
+    kind: 'sync',
+    name: 'memory',
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+      notify(key);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+      notify(key);
+    },
+    keys: () => [...items.keys()],
+    subscribe: (key, onChange) => {
+      const keyListeners = listeners.get(key) ?? new Set();
+      keyListeners.add(onChange);
+      listeners.set(key, keyListeners);
+      return () => {
+        keyListeners.delete(onChange);
+      };
+    },
+  };
+}
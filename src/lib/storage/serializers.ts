@@ -0,0 +1,50 @@
+/**
+ * File: src/lib/storage/serializers.ts
+ *
+ * Value <-> string conversion for storage adapters
+ * Plain JSON loses Date, Map and Set (they come back as a string, {} and {}),
+ * so richJsonSerializer tags them on the way out and rebuilds them on the way in
+ */
+
+import type { Serializer } from './types';
+
+export const jsonSerializer: Serializer = {
+  stringify: (value) => JSON.stringify(value),
+  parse: (text) => JSON.parse(text),
+};
+
+type TaggedValue =
+  | { __type: 'Date'; value: string }
+  | { __type: 'Map'; value: Array<[unknown, unknown]> }
+  | { __type: 'Set'; value: unknown[] };
+
+function isTaggedValue(value: unknown): value is TaggedValue {
+  if (typeof value !== 'object' || value === null || !('__type' in value) || !('value' in value)) {
+    return false;
+  }
+  const { __type } = value as { __type: unknown };
+  return __type === 'Date' || __type === 'Map' || __type === 'Set';
+}
+
+export const richJsonSerializer: Serializer = {
+  stringify: (value) => JSON.stringify(value, function (this: Record<string, unknown>, key: string, current: unknown) {
+    // Read from the holder: Date.prototype.toJSON has already turned `current` into a string
+    const raw = this[key];
+    if (raw instanceof Date) return { __type: 'Date', value: raw.toISOString() };
+    if (raw instanceof Map) return { __type: 'Map', value: Array.from(raw.entries()) };
+    if (raw instanceof Set) return { __type: 'Set', value: Array.from(raw) };
+    return current;
+  }),
+  // The reviver runs inside-out, so nested values are already rebuilt here
+  parse: (text) => JSON.parse(text, (_key, current: unknown) => {
+    if (!isTaggedValue(current)) return current;
+    switch (current.__type) {
+      case 'Date':
+        return new Date(current.value);
+      case 'Map':
+        return new Map(current.value);
+      case 'Set':
+        return new Set(current.value);
+    }
+  }),
+};
@@ -0,0 +1,45 @@
+/**
+ * File: src/lib/storage/types.ts
+ *
+ * Storage adapter contracts shared by every backend
+ * Adapters only move strings around - turning values into strings is the
+ * Serializer's job (see serializers.ts)
+ */
+
+interface StorageAdapterBase {
+  /** Human-readable backend name, used in log messages */
+  readonly name: string;
+  /**
+   * Call onChange whenever `key` is written from somewhere else
+   * (another tab, another hook instance). Returns an unsubscribe function.
+   */
+  subscribe(key: string, onChange: () => void): () => void;
+}
+
+// localStorage, sessionStorage, in-memory: answers are available immediately
+export interface SyncStorageAdapter extends StorageAdapterBase {
+  readonly kind: 'sync';
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /** Every key currently stored, in no particular order */
+  keys(): string[];
+}
+
+// IndexedDB and friends: every operation goes through a Promise
+export interface AsyncStorageAdapter extends StorageAdapterBase {
+  readonly kind: 'async';
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  /** Every key currently stored, in no particular order */
+  keys(): Promise<string[]>;
+}
+
+// 🐍 Python: Like typing.Union with a discriminator field - check `kind` before calling
+export type StorageAdapter = SyncStorageAdapter | AsyncStorageAdapter;
+
+export interface Serializer {
+  stringify(value: unknown): string;
+  parse(text: string): unknown;
+}
@@ -0,0 +1,76 @@
+/**
+ * File: src/lib/storage/webStorage.ts
+ *
+ * localStorage / sessionStorage adapters
+ * Cross-tab changes arrive through the native `storage` event; changes in
+ * this tab are broadcast with a custom event, since `storage` only fires in
+ * *other* tabs
+ */
+
+import type { SyncStorageAdapter } from './types';
+
+export type WebStorageArea = 'localStorage' | 'sessionStorage';
+
+const WEB_STORAGE_EVENT = 'local-storage';
+
+interface WebStorageEventDetail {
+  area: WebStorageArea;
+  key: string;
+}
+
+export function createWebStorageAdapter(area: WebStorageArea): SyncStorageAdapter {
+  // Resolved lazily so importing this module during SSR is safe
+  const getArea = () => window[area];
+
+  const notify = (key: string) => {
+    window.dispatchEvent(
+      new CustomEvent<WebStorageEventDetail>(WEB_STORAGE_EVENT, { detail: { area, key } })
+    );
+  };
+
+  return {
+    kind: 'sync',
+    name: area,
+    getItem: (key) => getArea().getItem(key),
+    setItem: (key, value) => {
+      getArea().setItem(key, value);
+      notify(key);
+    },
+    removeItem: (key) => {
+      getArea().removeItem(key);
+      notify(key);
+    },
+    keys: () => {
+      const storage = getArea();
+      // 🐍 Python: Like list(d.keys()) - Storage has no iterator, only key(index)
+      return Array.from({ length: storage.length }, (_, index) => storage.key(index)).filter(
+        (key): key is string => key !== null
+      );
+    },
+    subscribe: (key, onChange) => {
+      const handleStorage = (event: StorageEvent) => {
+        // event.key is null when another tab calls clear()
+        if (event.storageArea === getArea() && (event.key === key || event.key === null)) {
+          onChange();
+        }
+      };
+
+      const handleLocalChange = (event: Event) => {
+        const { detail } = event as CustomEvent<WebStorageEventDetail>;
+        if (detail.area === area && detail.key === key) {
+          onChange();
+        }
+      };
+
+      window.addEventListener('storage', handleStorage);
+      window.addEventListener(WEB_STORAGE_EVENT, handleLocalChange);
+      return () => {
+        window.removeEventListener('storage', handleStorage);
+        window.removeEventListener(WEB_STORAGE_EVENT, handleLocalChange);
+      };
+    },
+  };
+}
+
+export const localStorageAdapter = createWebStorageAdapter('localStorage');
+export const sessionStorageAdapter = createWebStorageAdapter('sessionStorage');
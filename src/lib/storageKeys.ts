@@ -0,0 +1,25 @@
+/**
+ * File: src/lib/storageKeys.ts
+ *
+ * localStorage keys for the widgets that keep their state in Dashboard.tsx and TimeTools.tsx
+ * Widgets with a model module keep theirs there instead (NOTES_STORAGE_KEY in notes.ts,
+ * the theme and flag keys in theme.ts and flags.ts)
+ *
+ * Lives in lib, not next to the components: backup.ts lists every key it backs up, and
+ * importing Dashboard.tsx from there would be a cycle (Dashboard -> BackupPanel -> backup)
+ */
+
+/** Counter widget - the count with its undo/redo history */
+export const COUNTER_STORAGE_KEY = 'tutorial-counter';
+
+/** Clock widget - which tab is open */
+export const CLOCK_TAB_STORAGE_KEY = 'tutorial-clock-tab';
+
+/** World clock - the zones you added */
+export const CLOCK_ZONES_STORAGE_KEY = 'tutorial-clock-zones';
+
+/** Countdown - the last duration, in seconds */
+export const COUNTDOWN_STORAGE_KEY = 'tutorial-countdown-seconds';
+
+/** TodoList widget */
+export const TODOS_STORAGE_KEY = 'tutorial-todos';
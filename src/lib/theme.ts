@@ -0,0 +1,87 @@
+/**
+ * File: src/lib/theme.ts
+ *
+ * Theme definitions shared by the client ThemeProvider and the server layout
+ * Lives outside ThemeContext.tsx because values exported from a 'use client'
+ * module can't be read on the server
+ */
+
+import { cssVariable, tokenNames } from './tokens';
+
+// Named themes beyond light/dark - each one has a token map in tokens.ts
+export const customThemes = [
+  { name: 'nord', label: '❄️ Nord', base: 'dark' },
+  { name: 'solarized', label: '🌅 Solarized', base: 'light' },
+] as const;
+
+export type CustomThemeName = (typeof customThemes)[number]['name'];
+
+// What the user picked ('system' follows the OS setting)
+export type Theme = 'light' | 'dark' | 'system' | CustomThemeName;
+
+// What is actually on screen
+export type ResolvedTheme = Exclude<Theme, 'system'>;
+
+export interface ThemeOption {
+  name: Theme;
+  label: string;
+}
+
+export const themes: ThemeOption[] = [
+  { name: 'system', label: '💻 System' },
+  { name: 'light', label: '☀️ Light' },
+  { name: 'dark', label: '🌙 Dark' },
+  ...customThemes.map(({ name, label }) => ({ name, label })),
+];
+
+export const THEME_STORAGE_KEY = 'tutorial-theme';
+
+// User edits from the theme editor (see TokenOverrides in tokens.ts)
+export const THEME_TOKENS_STORAGE_KEY = 'tutorial-theme-tokens';
+
+// The attribute on <html> that globals.css keys its theme variables off
+export const THEME_ATTRIBUTE = 'data-theme';
+
+export function isTheme(value: unknown): value is Theme {
+  return themes.some(option => option.name === value);
+}
+
+// Whether a resolved theme is light or dark underneath (for toggling)
+export function baseOf(theme: ResolvedTheme): 'light' | 'dark' {
+  const custom = customThemes.find(option => option.name === theme);
+  return custom ? custom.base : (theme as 'light' | 'dark');
+}
+
+/**
+ * Blocking script for <head>: applies the saved theme before first paint, so
+ * nobody sees a light flash while React hydrates. Mirrors what ThemeProvider
+ * does after hydration, in plain ES5 since it runs before any bundle loads.
+ */
+export function getThemeScript(): string {
+  const themeNames = themes.map(option => option.name);
+  const variables = Object.fromEntries(tokenNames.map(name => [name, cssVariable(name)]));
+  return `(function () {
+  function read(key) {
+    var stored = window.localStorage.getItem(key);
+    var data = stored ? JSON.parse(stored) : null;
+    return data && typeof data === 'object' && '__version' in data ? data.value : data;
+  }
+  try {
+    var root = document.documentElement;
+    var theme = read(${JSON.stringify(THEME_STORAGE_KEY)});
+    if (${JSON.stringify(themeNames)}.indexOf(theme) === -1) theme = 'system';
+    if (theme === 'system') {
+      theme = window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+    }
+    root.setAttribute(${JSON.stringify(THEME_ATTRIBUTE)}, theme);
+
+    var variables = ${JSON.stringify(variables)};
+    var edits = (read(${JSON.stringify(THEME_TOKENS_STORAGE_KEY)}) || {})[theme] || {};
+    for (var name in edits) {
+      if (variables.hasOwnProperty(name) && /^#[0-9a-f]{6}$/i.test(edits[name])) {
+        root.style.setProperty(variables[name], edits[name]);
+      }
+    }
+  } catch (e) {}
+})();`;
+}
@@ -0,0 +1,170 @@
+/**
+ * File: src/lib/tokens.ts
+ *
+ * Design tokens - the single source of truth for theme colors
+ * Every theme is a typed token map; the layout turns them into a stylesheet
+ * and ThemeContext writes user edits onto <html> as CSS variables
+ */
+
+import { THEME_ATTRIBUTE, baseOf } from './theme';
+import type { ResolvedTheme } from './theme';
+
+export interface ThemeTokens {
+  background: string;
+  foreground: string;
+  card: string;
+  cardForeground: string;
+  border: string;
+  primary: string;
+  primaryForeground: string;
+  secondary: string;
+  secondaryForeground: string;
+  destructive: string;
+  destructiveForeground: string;
+  muted: string;
+  mutedForeground: string;
+  accent: string;
+  accentForeground: string;
+  success: string;
+  warning: string;
+  info: string;
+}
+
+export type TokenName = keyof ThemeTokens;
+
+// Partial edits layered on top of a built-in theme
+export type TokenOverrides = Partial<Record<ResolvedTheme, Partial<ThemeTokens>>>;
+
+const lightTokens: ThemeTokens = {
+  background: '#ffffff',
+  foreground: '#2e3440',
+  card: '#ffffff',
+  cardForeground: '#2e3440',
+  border: '#e5e7eb',
+  primary: '#6366f1',
+  primaryForeground: '#ffffff',
+  secondary: '#f8fafc',
+  secondaryForeground: '#1e293b',
+  destructive: '#dc2626',
+  destructiveForeground: '#ffffff',
+  muted: '#f1f5f9',
+  mutedForeground: '#64748b',
+  accent: '#f0f9ff',
+  accentForeground: '#0369a1',
+  success: '#16a34a',
+  warning: '#ea580c',
+  info: '#3b82f6',
+};
+
+// 🐍 Python: Like a dict of dicts - one palette per theme name
+export const themeTokens: Record<ResolvedTheme, ThemeTokens> = {
+  light: lightTokens,
+  dark: {
+    ...lightTokens,
+    background: '#0f172a',
+    foreground: '#e2e8f0',
+    card: '#1e293b',
+    cardForeground: '#e2e8f0',
+    border: '#334155',
+    primary: '#818cf8',
+    primaryForeground: '#1e293b',
+    secondary: '#334155',
+    secondaryForeground: '#e2e8f0',
+    muted: '#334155',
+    mutedForeground: '#94a3b8',
+    accent: '#1e293b',
+    accentForeground: '#60a5fa',
+    info: '#60a5fa',
+  },
+  nord: {
+    background: '#2e3440',
+    foreground: '#eceff4',
+    card: '#3b4252',
+    cardForeground: '#eceff4',
+    border: '#4c566a',
+    primary: '#88c0d0',
+    primaryForeground: '#2e3440',
+    secondary: '#434c5e',
+    secondaryForeground: '#eceff4',
+    destructive: '#bf616a',
+    destructiveForeground: '#eceff4',
+    muted: '#434c5e',
+    mutedForeground: '#d8dee9',
+    accent: '#434c5e',
+    accentForeground: '#8fbcbb',
+    success: '#a3be8c',
+    warning: '#d08770',
+    info: '#81a1c1',
+  },
+  solarized: {
+    background: '#fdf6e3',
+    foreground: '#586e75',
+    card: '#eee8d5',
+    cardForeground: '#586e75',
+    border: '#d3cbb7',
+    primary: '#268bd2',
+    primaryForeground: '#fdf6e3',
+    secondary: '#fdf6e3',
+    secondaryForeground: '#073642',
+    destructive: '#dc322f',
+    destructiveForeground: '#fdf6e3',
+    muted: '#eee8d5',
+    mutedForeground: '#839496',
+    accent: '#eee8d5',
+    accentForeground: '#2aa198',
+    success: '#859900',
+    warning: '#cb4b16',
+    info: '#6c71c4',
+  },
+};
+
+export const tokenNames = Object.keys(lightTokens) as TokenName[];
+
+// cardForeground -> --card-foreground
+export function cssVariable(name: TokenName): string {
+  return `--${name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+}
+
+/** Reference a token from an inline style, e.g. color: token('success') */
+export function token(name: TokenName): string {
+  return `var(${cssVariable(name)})`;
+}
+
+/** A see-through version of a token for tinted backgrounds and borders */
+export function tint(name: TokenName, percent: number): string {
+  return `color-mix(in srgb, ${token(name)} ${percent}%, transparent)`;
+}
+
+export function isTokenName(value: string): value is TokenName {
+  return (tokenNames as string[]).includes(value);
+}
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+export function isThemeTokenEdits(value: unknown): value is Partial<ThemeTokens> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.entries(value).every(([name, color]) => isTokenName(name) && isHexColor(color));
+}
+
+// Also guards imported theme JSON, which is untrusted
+export function isTokenOverrides(value: unknown): value is TokenOverrides {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.entries(value).every(([theme, edits]) => Object.hasOwn(themeTokens, theme) && isThemeTokenEdits(edits));
+}
+
+function declarations(tokens: ThemeTokens, resolvedTheme: ResolvedTheme): string {
+  return [`color-scheme: ${baseOf(resolvedTheme)};`, ...tokenNames.map(name => `${cssVariable(name)}: ${tokens[name]};`)].join(' ');
+}
+
+/** Stylesheet for every built-in theme, keyed off <html data-theme> */
+export function getThemeStylesheet(): string {
+  const blocks = (Object.keys(themeTokens) as ResolvedTheme[]).map(resolvedTheme => {
+    // Light doubles as the default before any data-theme is set
+    const themeSelector = `[${THEME_ATTRIBUTE}='${resolvedTheme}']`;
+    const selector = resolvedTheme === 'light' ? `:root, ${themeSelector}` : themeSelector;
+    return `${selector} { ${declarations(themeTokens[resolvedTheme], resolvedTheme)} }`;
+  });
+  return blocks.join('\n');
+}
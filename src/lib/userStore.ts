@@ -0,0 +1,17 @@
+/**
+ * File: src/lib/userStore.ts
+ *
+ * Local mock backend for the user API - reads a JSON fixture, no database needed
+ * Server-only: imported by route handlers, never by client components
+ */
+
+import fixture from '../data/users.json';
+import { isUser } from './users';
+import type { User } from './users';
+
+// Validated once at load, so a typo in the fixture can't leak a malformed user
+const users: User[] = fixture.filter(isUser);
+
+export function findUser(id: string): User | null {
+  return users.find(user => user.id === id) ?? null;
+}
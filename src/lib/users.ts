@@ -0,0 +1,122 @@
+/**
+ * File: src/lib/users.ts
+ *
+ * User API types and a typed client for /api/users/[id]
+ * Shared by the route handler and UserProfile, so both sides agree on the JSON shape
+ */
+
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  location: string;
+  /** ISO 8601 timestamp */
+  joinedAt: string;
+}
+
+/** Body of every non-2xx response */
+export interface ApiErrorBody {
+  error: {
+    status: number;
+    message: string;
+  };
+}
+
+/** Failure the mock backend can be told to produce */
+export type MockFailure = '404' | '500' | 'timeout';
+
+// Query params understood by the mock backend (env vars set the defaults)
+export interface MockApiOptions {
+  /** Delay before responding, in ms */
+  latency?: number;
+  /** Always fail this way */
+  fail?: MockFailure;
+  /** Chance (0-1) of a random 500 */
+  failRate?: number;
+}
+
+export type UserRequestErrorKind = 'not-found' | 'server' | 'timeout' | 'network' | 'invalid-response';
+
+export class UserRequestError extends Error {
+  constructor(
+    public readonly kind: UserRequestErrorKind,
+    message: string,
+    /** HTTP status, when the server answered at all */
+    public readonly status?: number,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'UserRequestError';
+  }
+}
+
+const ROLES: UserRole[] = ['admin', 'editor', 'viewer'];
+
+export function isUser(value: unknown): value is User {
+  if (typeof value !== 'object' || value === null) return false;
+  const user = value as Record<string, unknown>;
+  return typeof user.id === 'string'
+    && typeof user.name === 'string'
+    && typeof user.email === 'string'
+    && ROLES.includes(user.role as UserRole)
+    && typeof user.location === 'string'
+    && typeof user.joinedAt === 'string';
+}
+
+function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  if (typeof value !== 'object' || value === null || !('error' in value)) return false;
+  const { error } = value as { error: unknown };
+  return typeof error === 'object' && error !== null
+    && typeof (error as ApiErrorBody['error']).message === 'string';
+}
+
+export interface FetchUserOptions extends MockApiOptions {
+  /** Abort from the caller, e.g. on unmount - rejects with the AbortError untouched */
+  signal?: AbortSignal;
+  /** Give up after this many ms (defaults to 5000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Load one user from the API
+ * @throws UserRequestError for 404s, 5xx, timeouts, network failures and malformed JSON
+ */
+export async function fetchUser(
+  id: string,
+  { signal, timeoutMs = 5000, latency, fail, failRate }: FetchUserOptions = {}
+): Promise<User> {
+  const params = new URLSearchParams();
+  if (latency !== undefined) params.set('latency', String(latency));
+  if (fail !== undefined) params.set('fail', fail);
+  if (failRate !== undefined) params.set('failRate', String(failRate));
+  const query = params.toString() ? `?${params}` : '';
+
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+  let response: Response;
+  try {
+    response = await fetch(`/api/users/${encodeURIComponent(id)}${query}`, { signal: combined });
+  } catch (error) {
+    if (signal?.aborted) throw error; // caller cancelled - not a failure
+    if (timeout.aborted) {
+      throw new UserRequestError('timeout', `No response after ${timeoutMs / 1000}s`, undefined, error);
+    }
+    throw new UserRequestError('network', 'Could not reach the server', undefined, error);
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = isApiErrorBody(body) ? body.error.message : response.statusText;
+    const kind = response.status === 404 ? 'not-found' : 'server';
+    throw new UserRequestError(kind, message, response.status);
+  }
+  if (!isUser(body)) {
+    throw new UserRequestError('invalid-response', 'The server sent something that is not a user', response.status);
+  }
+  return body;
+}